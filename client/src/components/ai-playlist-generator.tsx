@@ -10,15 +10,38 @@ import {
 	CardContent,
 	CardFooter,
 } from '@/components/ui/card';
-import { Loader2, Music, Check, Settings2 } from 'lucide-react';
+import {
+	Loader2,
+	Music,
+	Check,
+	Settings2,
+	X,
+	RotateCcw,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useQueryClient } from '@tanstack/react-query';
 import { getValidAccessToken } from '@/lib/fixed-auth';
 import {
 	PlaylistSourceSelector,
 	PlaylistSourceOptions,
+	WeightOverrides,
+	DurationTarget,
+	SelectionConstraints,
+	DEFAULT_SELECTION_CONSTRAINTS,
+	SequencingOption,
 } from '@/components/playlist-source-selector';
 import { PlaylistGenerationProgress } from '@/components/playlist-generation-progress';
+import {
+	DraftPlaylistReview,
+	DraftTrack,
+} from '@/components/draft-playlist-review';
+import {
+	cancelGenerationJob,
+	resumeGenerationJob,
+	commitDraftPlaylist,
+} from '@/lib/generation-events';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import {
 	Collapsible,
 	CollapsibleContent,
@@ -38,9 +61,18 @@ export function AIPlaylistGenerator({
 	const [isGenerating, setIsGenerating] = useState(false);
 	const [success, setSuccess] = useState(false);
 	const [showAdvanced, setShowAdvanced] = useState(false);
-	const [createdPlaylistId, setCreatedPlaylistId] = useState<
-		string | undefined
-	>(undefined);
+	const [jobId, setJobId] = useState<string | undefined>(undefined);
+	const [failedJobId, setFailedJobId] = useState<string | undefined>(
+		undefined
+	);
+	const [previewFirst, setPreviewFirst] = useState(false);
+	const [draft, setDraft] = useState<{
+		jobId: string;
+		name: string;
+		description?: string;
+		tracks: DraftTrack[];
+	} | null>(null);
+	const [isCommitting, setIsCommitting] = useState(false);
 
 	// State for the source selection and processing mode
 	const [sourceOptions, setSourceOptions] = useState({
@@ -52,6 +84,11 @@ export function AIPlaylistGenerator({
 		} as PlaylistSourceOptions,
 		processingMode: 'standard',
 		targetTrackCount: 20,
+		weightOverrides: {} as WeightOverrides,
+		selectionConstraints: DEFAULT_SELECTION_CONSTRAINTS,
+		sequencing: 'auto' as SequencingOption,
+		hiddenGems: false,
+		targetDuration: null as DurationTarget | null,
 	});
 
 	const { toast } = useToast();
@@ -73,7 +110,9 @@ export function AIPlaylistGenerator({
 		try {
 			setIsGenerating(true);
 			setSuccess(false);
-			setCreatedPlaylistId(undefined);
+			setJobId(undefined);
+			setFailedJobId(undefined);
+			setDraft(null);
 
 			// Get a valid access token
 			const token = await getValidAccessToken();
@@ -97,11 +136,23 @@ export function AIPlaylistGenerator({
 				sources: sourceOptions.sources,
 				processingMode: sourceOptions.processingMode,
 				targetTrackCount: sourceOptions.targetTrackCount,
+				draft: previewFirst,
+				weightOverrides: sourceOptions.weightOverrides,
+				selectionConstraints: sourceOptions.selectionConstraints,
+				// 'auto' leaves the order to the prompt analysis
+				sequencing:
+					sourceOptions.sequencing === 'auto'
+						? undefined
+						: sourceOptions.sequencing,
+				hiddenGems: sourceOptions.hiddenGems,
+				// A total length replaces the track count when set
+				targetDuration: sourceOptions.targetDuration || undefined,
 			};
 
 			console.log('Sending playlist generation request:', requestPayload);
 
-			// Call our AI playlist generation endpoint with source options
+			// Queue the generation job; progress and the result arrive
+			// through the job's event stream
 			const response = await fetch('/api/ai/generate-playlist', {
 				method: 'POST',
 				headers: {
@@ -119,47 +170,135 @@ export function AIPlaylistGenerator({
 			}
 
 			const data = await response.json();
-			console.log('Playlist generation response:', data);
+			console.log('Playlist generation queued:', data);
 
-			// Store the playlist ID for the progress component
-			setCreatedPlaylistId(data.playlist.id);
-
-			// Success handling
-			setSuccess(true);
+			// The progress component subscribes to this job
+			setJobId(data.jobId);
+		} catch (error: any) {
 			toast({
-				title: 'Playlist created!',
-				description: `Your new playlist "${data.playlist.name}" has been created with ${data.playlist.tracks.length} tracks.`,
-				variant: 'default',
+				title: 'Error creating playlist',
+				description: error.message || 'Something went wrong',
+				variant: 'destructive',
 			});
+			setIsGenerating(false);
+		}
+	};
+
+	// Handle completion of generation
+	const handleGenerationComplete = (data: any) => {
+		setIsGenerating(false);
+		setFailedJobId(undefined);
+
+		if (!data?.playlist) {
+			return;
+		}
 
-			// Invalidate playlists queries to refresh the lists
-			queryClient.invalidateQueries({
-				queryKey: ['/api/spotify/playlists'],
+		console.log('Playlist generation result:', data);
+
+		// Drafts are reviewed before anything is written to Spotify
+		if (data.draft) {
+			setDraft({
+				jobId: data.jobId || jobId,
+				name: data.playlist.name,
+				description: data.playlist.description,
+				tracks: data.playlist.tracks,
 			});
-			queryClient.invalidateQueries({ queryKey: ['/api/playlists/ai'] });
+			return;
+		}
 
-			// Call the callback if provided
-			if (onPlaylistCreated) {
-				onPlaylistCreated(data.playlist.id);
-			}
+		// Success handling
+		setSuccess(true);
+		setDraft(null);
+		setIsCommitting(false);
+		const discoveryCount = data.processingStats?.discoveryTracks || 0;
+		toast({
+			title: 'Playlist created!',
+			description: `Your new playlist "${
+				data.playlist.name
+			}" has been created with ${data.playlist.tracks.length} tracks${
+				discoveryCount > 0
+					? `, including ${discoveryCount} new discoveries`
+					: ''
+			}.`,
+			variant: 'default',
+		});
+
+		// Invalidate playlists queries to refresh the lists
+		queryClient.invalidateQueries({
+			queryKey: ['/api/spotify/playlists'],
+		});
+		queryClient.invalidateQueries({ queryKey: ['/api/playlists/ai'] });
+
+		// Call the callback if provided
+		if (onPlaylistCreated) {
+			onPlaylistCreated(data.playlist.id);
+		}
+	};
+
+	// Handle a failed or cancelled generation job
+	const handleGenerationError = (message: string) => {
+		setIsGenerating(false);
+		setIsCommitting(false);
+		setFailedJobId(jobId);
+		toast({
+			title: 'Playlist generation stopped',
+			description: message,
+			variant: 'destructive',
+		});
+	};
+
+	// Cancel the running generation job
+	const handleCancel = async () => {
+		if (!jobId) return;
 
-			// Optionally, reset form
-			// setPrompt('');
-			// setName('');
-			// setDescription('');
+		try {
+			await cancelGenerationJob(jobId);
 		} catch (error: any) {
 			toast({
-				title: 'Error creating playlist',
+				title: 'Could not cancel generation',
 				description: error.message || 'Something went wrong',
 				variant: 'destructive',
 			});
-			setIsGenerating(false);
 		}
 	};
 
-	// Handle completion of generation
-	const handleGenerationComplete = () => {
-		setIsGenerating(false);
+	// Resume a failed or cancelled job from its last completed step
+	const handleResume = async () => {
+		if (!failedJobId) return;
+
+		try {
+			await resumeGenerationJob(failedJobId);
+			setFailedJobId(undefined);
+			setIsGenerating(true);
+		} catch (error: any) {
+			toast({
+				title: 'Could not resume generation',
+				description: error.message || 'Something went wrong',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	// Save the accepted draft tracks as a Spotify playlist
+	const handleCommitDraft = async (trackIds: string[]) => {
+		if (!draft) return;
+
+		try {
+			setIsCommitting(true);
+			await commitDraftPlaylist(draft.jobId, trackIds, {
+				name: name.trim() || undefined,
+				description: description.trim() || undefined,
+			});
+			setJobId(draft.jobId);
+			setIsGenerating(true);
+		} catch (error: any) {
+			setIsCommitting(false);
+			toast({
+				title: 'Could not save playlist',
+				description: error.message || 'Something went wrong',
+				variant: 'destructive',
+			});
+		}
 	};
 
 	// Handle changes from the source selector
@@ -167,6 +306,11 @@ export function AIPlaylistGenerator({
 		sources: PlaylistSourceOptions;
 		processingMode: string;
 		targetTrackCount: number;
+		weightOverrides: WeightOverrides;
+		selectionConstraints: SelectionConstraints;
+		sequencing: SequencingOption;
+		hiddenGems: boolean;
+		targetDuration: DurationTarget | null;
 	}) => {
 		setSourceOptions(options);
 	};
@@ -247,27 +391,73 @@ export function AIPlaylistGenerator({
 						</CollapsibleTrigger>
 						<CollapsibleContent className='mt-4'>
 							<PlaylistSourceSelector
+								prompt={prompt}
 								onChange={handleSourceOptionsChange}
 								defaultOptions={sourceOptions}
 							/>
 						</CollapsibleContent>
 					</Collapsible>
 
+					<div className='flex items-center space-x-2'>
+						<Checkbox
+							id='previewFirst'
+							checked={previewFirst}
+							onCheckedChange={(checked) =>
+								setPreviewFirst(checked as boolean)
+							}
+						/>
+						<Label htmlFor='previewFirst'>
+							Review tracks before saving to Spotify
+						</Label>
+					</div>
+
 					{/* Progress component */}
 					<PlaylistGenerationProgress
 						isGenerating={isGenerating}
-						playlistId={createdPlaylistId}
+						jobId={jobId}
 						onComplete={handleGenerationComplete}
+						onError={handleGenerationError}
 						processingMode={sourceOptions.processingMode}
 						initialMessage={`Processing with ${sourceOptions.processingMode} mode...`}
 					/>
+
+					{draft && !isGenerating && (
+						<DraftPlaylistReview
+							name={name.trim() || draft.name}
+							description={description.trim() || draft.description}
+							tracks={draft.tracks}
+							isCommitting={isCommitting}
+							onCommit={handleCommitDraft}
+							onDiscard={() => setDraft(null)}
+						/>
+					)}
 				</CardContent>
 
-				<CardFooter>
+				<CardFooter className='flex flex-col space-y-2'>
+					{isGenerating && jobId && (
+						<Button
+							type='button'
+							variant='outline'
+							className='w-full'
+							onClick={handleCancel}>
+							<X className='mr-2 h-4 w-4' />
+							Cancel Generation
+						</Button>
+					)}
+					{!isGenerating && failedJobId && (
+						<Button
+							type='button'
+							variant='outline'
+							className='w-full'
+							onClick={handleResume}>
+							<RotateCcw className='mr-2 h-4 w-4' />
+							Resume Where It Stopped
+						</Button>
+					)}
 					<Button
 						type='submit'
 						className='w-full'
-						disabled={isGenerating || !prompt.trim()}>
+						disabled={isGenerating || isCommitting || !prompt.trim()}>
 						{isGenerating ? (
 							<>
 								<Loader2 className='mr-2 h-4 w-4 animate-spin' />
@@ -0,0 +1,191 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Loader2, Save } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
+
+// Track as returned by the generation job in a draft result
+export interface DraftTrack {
+	id: string;
+	name: string;
+	artist: string;
+	albumName?: string;
+	imageUrl?: string;
+	durationMs?: number;
+	score?: number;
+	source?: string;
+	isDiscovery?: boolean;
+	selectionReason?: string;
+	// Section of a playlist that changes along the way
+	segment?: { index: number; label: string } | null;
+}
+
+interface DraftPlaylistReviewProps {
+	name: string;
+	description?: string;
+	tracks: DraftTrack[];
+	isCommitting: boolean;
+	onCommit: (trackIds: string[]) => void;
+	onDiscard: () => void;
+}
+
+export function DraftPlaylistReview({
+	name,
+	description,
+	tracks,
+	isCommitting,
+	onCommit,
+	onDiscard,
+}: DraftPlaylistReviewProps) {
+	// Every candidate starts out accepted
+	const [accepted, setAccepted] = useState<Set<string>>(
+		() => new Set(tracks.map((track) => track.id))
+	);
+
+	useEffect(() => {
+		setAccepted(new Set(tracks.map((track) => track.id)));
+	}, [tracks]);
+
+	const toggleTrack = (trackId: string, checked: boolean) => {
+		setAccepted((prev) => {
+			const next = new Set(prev);
+			if (checked) {
+				next.add(trackId);
+			} else {
+				next.delete(trackId);
+			}
+			return next;
+		});
+	};
+
+	const handleCommit = () => {
+		// Keep the order the tracks were selected in
+		onCommit(
+			tracks
+				.filter((track) => accepted.has(track.id))
+				.map((track) => track.id)
+		);
+	};
+
+	return (
+		<Card className='w-full'>
+			<CardHeader>
+				<CardTitle>{name}</CardTitle>
+				<CardDescription>
+					{description ||
+						'Review the suggested tracks before saving to Spotify'}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				<div className='flex items-center justify-between text-sm text-muted-foreground'>
+					<span>
+						{accepted.size} of {tracks.length} tracks accepted
+					</span>
+					<div className='space-x-2'>
+						<Button
+							type='button'
+							variant='ghost'
+							size='sm'
+							onClick={() =>
+								setAccepted(
+									new Set(tracks.map((track) => track.id))
+								)
+							}>
+							Accept all
+						</Button>
+						<Button
+							type='button'
+							variant='ghost'
+							size='sm'
+							onClick={() => setAccepted(new Set())}>
+							Reject all
+						</Button>
+					</div>
+				</div>
+
+				<ScrollArea className='h-[320px] pr-4'>
+					<div className='space-y-1'>
+						{tracks.map((track, index) => (
+							<Fragment key={track.id}>
+								{track.segment &&
+									track.segment.index !==
+										tracks[index - 1]?.segment?.index && (
+										<p className='pt-2 text-xs font-semibold uppercase text-muted-foreground'>
+											{track.segment.label}
+										</p>
+									)}
+								<label
+									htmlFor={`draft-track-${track.id}`}
+									className={`flex items-center space-x-3 rounded px-2 py-2 cursor-pointer hover:bg-muted ${
+										accepted.has(track.id) ? '' : 'opacity-50'
+									}`}>
+									<Checkbox
+										id={`draft-track-${track.id}`}
+										checked={accepted.has(track.id)}
+										onCheckedChange={(checked) =>
+											toggleTrack(track.id, checked as boolean)
+										}
+									/>
+									<span className='w-6 text-center text-xs text-muted-foreground'>
+										{index + 1}
+									</span>
+									<div className='flex-1 min-w-0'>
+										<p className='font-medium truncate'>
+											{track.name}
+										</p>
+										<p
+											className='text-xs text-muted-foreground truncate'
+											title={track.selectionReason}>
+											{track.artist}
+											{track.albumName
+												? ` · ${track.albumName}`
+												: ''}
+										</p>
+									</div>
+									{track.isDiscovery && (
+										<Badge variant='secondary'>New</Badge>
+									)}
+									<span className='text-xs text-muted-foreground'>
+										{formatDuration((track.durationMs || 0) / 1000)}
+									</span>
+								</label>
+							</Fragment>
+						))}
+					</div>
+				</ScrollArea>
+
+				<div className='flex space-x-2'>
+					<Button
+						type='button'
+						variant='outline'
+						className='flex-1'
+						disabled={isCommitting}
+						onClick={onDiscard}>
+						Discard
+					</Button>
+					<Button
+						type='button'
+						className='flex-1'
+						disabled={isCommitting || accepted.size === 0}
+						onClick={handleCommit}>
+						{isCommitting ? (
+							<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+						) : (
+							<Save className='mr-2 h-4 w-4' />
+						)}
+						Save to Spotify
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
@@ -2,27 +2,30 @@ import { useState, useEffect } from 'react';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent } from '@/components/ui/card';
 import { Loader2, RefreshCw, Check, AlertCircle } from 'lucide-react';
-import { getValidAccessToken } from '@/lib/fixed-auth';
+import { subscribeToGenerationEvents } from '@/lib/generation-events';
 
 export interface GenerationProgress {
 	stage: string;
 	progress: number;
 	message: string;
 	remainingTimeEstimate: number;
+	sources?: Record<string, number>;
 }
 
 interface PlaylistGenerationProgressProps {
-	playlistId?: string;
+	jobId?: string;
 	isGenerating: boolean;
-	onComplete?: () => void;
+	onComplete?: (result?: any) => void;
+	onError?: (message: string) => void;
 	initialMessage?: string;
 	processingMode?: string;
 }
 
 export function PlaylistGenerationProgress({
-	playlistId,
+	jobId,
 	isGenerating,
 	onComplete,
+	onError,
 	initialMessage = 'Preparing to generate...',
 	processingMode = 'standard',
 }: PlaylistGenerationProgressProps) {
@@ -31,11 +34,9 @@ export function PlaylistGenerationProgress({
 		progress: 0,
 		message: initialMessage,
 		remainingTimeEstimate: 60,
+		sources: {},
 	});
 	const [error, setError] = useState<string | null>(null);
-	const [pollInterval, setPollInterval] = useState<NodeJS.Timeout | null>(
-		null
-	);
 
 	// Reset progress when generating starts
 	useEffect(() => {
@@ -45,25 +46,47 @@ export function PlaylistGenerationProgress({
 				progress: 0,
 				message: `Processing with ${processingMode} mode...`,
 				remainingTimeEstimate: getEstimatedTimeForMode(processingMode),
+				sources: {},
 			});
 			setError(null);
 		}
 	}, [isGenerating, processingMode]);
 
-	// Poll for real progress updates if we have a playlist ID
+	// Stream progress updates for the generation job
 	useEffect(() => {
-		if (isGenerating && playlistId) {
-			// Start polling for progress
-			pollForProgress();
+		if (!isGenerating || !jobId) {
+			return;
+		}
 
-			// Cleanup function to clear interval
-			return () => {
-				if (pollInterval) {
-					clearInterval(pollInterval);
+		const unsubscribe = subscribeToGenerationEvents(jobId, {
+			onProgress: (update) => {
+				setProgress(update);
+			},
+			onResult: (result) => {
+				setProgress((prev) => ({
+					...prev,
+					stage: 'complete',
+					progress: 100,
+					message: result?.message || 'Playlist created successfully!',
+					remainingTimeEstimate: 0,
+				}));
+				if (onComplete) {
+					onComplete(result);
 				}
-			};
-		}
-	}, [isGenerating, playlistId]);
+			},
+			onError: (streamError) => {
+				const message =
+					streamError.message || 'Playlist generation failed';
+				setError(message);
+				setProgress((prev) => ({ ...prev, stage: 'error' }));
+				if (onError) {
+					onError(message);
+				}
+			},
+		});
+
+		return unsubscribe;
+	}, [isGenerating, jobId]);
 
 	// Function to estimate time based on processing mode
 	const getEstimatedTimeForMode = (mode: string): number => {
@@ -81,140 +104,6 @@ export function PlaylistGenerationProgress({
 		}
 	};
 
-	// Function to poll for progress updates
-	const pollForProgress = async () => {
-		if (!playlistId) return;
-
-		// Clear existing interval if any
-		if (pollInterval) {
-			clearInterval(pollInterval);
-		}
-
-		// Setup polling
-		const interval = setInterval(async () => {
-			try {
-				const token = await getValidAccessToken();
-
-				if (!token) return;
-
-				const response = await fetch(
-					`/api/ai/generate-playlist/progress?playlistId=${playlistId}`,
-					{
-						headers: {
-							Authorization: `Bearer ${token}`,
-						},
-					}
-				);
-
-				if (!response.ok) {
-					throw new Error('Failed to fetch progress');
-				}
-
-				const data = await response.json();
-				console.log('Progress update:', data);
-
-				// Update progress state
-				if (data.progress) {
-					setProgress(data.progress);
-				}
-
-				// Check if complete
-				if (
-					data.progress?.progress === 100 ||
-					data.progress?.stage === 'complete'
-				) {
-					clearInterval(interval);
-					if (onComplete) {
-						onComplete();
-					}
-				}
-			} catch (error) {
-				console.error('Error fetching progress:', error);
-				// Don't clear interval on error, just log it
-			}
-		}, 2000);
-
-		setPollInterval(interval);
-	};
-
-	// Since we might not have real progress updates yet, this is our fallback
-	useEffect(() => {
-		if (!isGenerating || playlistId) {
-			return; // Don't simulate if we're not generating or if we have a real playlist ID
-		}
-
-		let intervalId: NodeJS.Timeout;
-
-		// Simulate progress updates
-		const simulateProgress = () => {
-			const stages = [
-				{
-					stage: 'analyzing',
-					message: 'Analyzing your prompt...',
-					progress: 10,
-				},
-				{
-					stage: 'collecting',
-					message: 'Collecting tracks from your library...',
-					progress: 30,
-				},
-				{
-					stage: 'processing',
-					message: 'Processing audio features...',
-					progress: 50,
-				},
-				{
-					stage: 'selecting',
-					message: 'Selecting the best tracks...',
-					progress: 70,
-				},
-				{
-					stage: 'finalizing',
-					message: 'Creating your playlist...',
-					progress: 90,
-				},
-				{
-					stage: 'complete',
-					message: 'Playlist created successfully!',
-					progress: 100,
-				},
-			];
-
-			let currentStageIndex = 0;
-
-			intervalId = setInterval(() => {
-				if (currentStageIndex < stages.length) {
-					const currentStage = stages[currentStageIndex];
-					setProgress({
-						...currentStage,
-						remainingTimeEstimate: Math.max(
-							0,
-							getEstimatedTimeForMode(processingMode) -
-								currentStage.progress / 2
-						),
-					});
-					currentStageIndex++;
-
-					if (currentStageIndex === stages.length) {
-						clearInterval(intervalId);
-						if (onComplete) {
-							setTimeout(onComplete, 1000); // Delay to show 100%
-						}
-					}
-				}
-			}, 2000); // Update every 2 seconds
-		};
-
-		simulateProgress();
-
-		// Cleanup
-		return () => {
-			if (intervalId) {
-				clearInterval(intervalId);
-			}
-		};
-	}, [isGenerating, onComplete, playlistId, processingMode]);
-
 	// Function to format remaining time
 	const formatRemainingTime = (seconds: number): string => {
 		if (seconds < 60) {
@@ -273,6 +162,21 @@ export function PlaylistGenerationProgress({
 					<p className='text-sm text-center text-muted-foreground'>
 						{error || progress.message}
 					</p>
+
+					{progress.sources &&
+						Object.keys(progress.sources).length > 0 && (
+							<div className='flex flex-wrap justify-center gap-2 text-xs'>
+								{Object.entries(progress.sources).map(
+									([source, count]) => (
+										<span
+											key={source}
+											className='inline-flex items-center px-2 py-1 rounded-full bg-secondary text-secondary-foreground capitalize'>
+											{source.replace('_', ' ')}: {count}
+										</span>
+									)
+								)}
+							</div>
+						)}
 				</div>
 			</CardContent>
 		</Card>
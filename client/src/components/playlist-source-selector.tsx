@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -10,10 +10,26 @@ import {
 	CardHeader,
 	CardTitle,
 } from '@/components/ui/card';
-import { Loader2, Clock, Zap, Database, Server } from 'lucide-react';
+import {
+	Loader2,
+	Clock,
+	Zap,
+	Database,
+	Server,
+	Sparkles,
+} from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
 import { getValidAccessToken } from '@/lib/fixed-auth';
 import { useToast } from '@/hooks/use-toast';
 import { API } from '@/lib/api-proxy';
@@ -27,16 +43,23 @@ export interface PlaylistInfo {
 	imageUrl?: string;
 	isCollaborative: boolean;
 	isPublic: boolean;
+	isOwn: boolean; // Owned by the user rather than followed
+	ownerName?: string;
+	position: number; // Spotify's order, most recent first
 }
 
+type PlaylistSort = 'recent' | 'size' | 'name';
+type PlaylistOwnerFilter = 'all' | 'mine' | 'followed' | 'collaborative';
+
 export interface ProcessingModeConfig {
 	maxTracksPerPlaylist: number;
 	maxPlaylists: number;
 	useAudioFeatures: boolean;
 	fetchAllPages: boolean;
-	requestDelay: number;
+	maxConcurrentRequests: number;
 	prioritizeByRelevance: boolean;
 	targetPoolSize: number;
+	maxRecommendations: number;
 }
 
 export interface ProcessingModeInfo {
@@ -54,20 +77,122 @@ export interface PlaylistSourceOptions {
 	playlists: string[];
 }
 
+// Features the server scores tracks on, in display order
+export const SCORING_FEATURES = [
+	{ key: 'energy', label: 'Energy' },
+	{ key: 'tempo', label: 'Tempo' },
+	{ key: 'danceability', label: 'Danceability' },
+	{ key: 'acousticness', label: 'Acousticness' },
+	{ key: 'valence', label: 'Happiness' },
+	{ key: 'instrumentalness', label: 'Instrumentalness' },
+	{ key: 'genre', label: 'Genre match' },
+	{ key: 'popularity', label: 'Popularity' },
+	{ key: 'mood', label: 'Mood match' },
+] as const;
+
+export type ScoringFeature = (typeof SCORING_FEATURES)[number]['key'];
+
+// Weights the user set explicitly; missing features use the AI's weight
+export type WeightOverrides = Partial<Record<ScoringFeature, number>>;
+
+// Variety rules applied when picking tracks. A limit of 0 means unlimited.
+export interface SelectionConstraints {
+	maxPerArtist: number;
+	maxPerAlbum: number;
+	noConsecutiveArtist: boolean;
+	excludeRecentAIPlaylists: boolean;
+	recentPlaylistCount: number;
+}
+
+export const DEFAULT_SELECTION_CONSTRAINTS: SelectionConstraints = {
+	maxPerArtist: 3,
+	maxPerAlbum: 2,
+	noConsecutiveArtist: true,
+	excludeRecentAIPlaylists: false,
+	recentPlaylistCount: 5,
+};
+
+// Total playlist length asked for instead of a track count
+export interface DurationTarget {
+	minutes: number;
+	toleranceMinutes: number;
+}
+
+const DEFAULT_DURATION_TARGET: DurationTarget = {
+	minutes: 60,
+	toleranceMinutes: 3,
+};
+
+type PlaylistLengthMode = 'tracks' | 'duration';
+
+// Playback orders the server can apply; 'auto' uses the AI's suggestion
+export const SEQUENCING_OPTIONS = [
+	{
+		value: 'auto',
+		label: 'AI suggestion',
+		description: 'Let the AI pick the order from your prompt',
+	},
+	{
+		value: 'none',
+		label: 'Best match first',
+		description: 'Keep the ranking order',
+	},
+	{
+		value: 'ramp_up',
+		label: 'Build up',
+		description: 'Energy rises from start to finish',
+	},
+	{
+		value: 'peak',
+		label: 'Peak in the middle',
+		description: 'Ramp up, peak, then cool down',
+	},
+	{
+		value: 'cool_down',
+		label: 'Wind down',
+		description: 'Energy falls from start to finish',
+	},
+	{
+		value: 'tempo_flow',
+		label: 'Smooth tempo',
+		description: 'Small tempo changes between tracks',
+	},
+	{
+		value: 'harmonic',
+		label: 'Harmonic mixing',
+		description: 'Key-compatible transitions (Camelot wheel)',
+	},
+] as const;
+
+export type SequencingOption = (typeof SEQUENCING_OPTIONS)[number]['value'];
+
 export interface PlaylistSourceSelectorProps {
+	// The current prompt, used to suggest relevant playlists
+	prompt?: string;
 	onChange: (options: {
 		sources: PlaylistSourceOptions;
 		processingMode: string;
 		targetTrackCount: number;
+		weightOverrides: WeightOverrides;
+		selectionConstraints: SelectionConstraints;
+		sequencing: SequencingOption;
+		hiddenGems: boolean;
+		targetDuration: DurationTarget | null;
 	}) => void;
 	defaultOptions?: {
 		sources?: PlaylistSourceOptions;
 		processingMode?: string;
 		targetTrackCount?: number;
+		weightOverrides?: WeightOverrides;
+		selectionConstraints?: SelectionConstraints;
+		sequencing?: SequencingOption;
+		hiddenGems?: boolean;
+		targetDuration?: DurationTarget | null;
 	};
 }
 
 export function PlaylistSourceSelector({
+	prompt = '',
 	onChange,
 	defaultOptions,
 }: PlaylistSourceSelectorProps) {
@@ -91,6 +216,36 @@ export function PlaylistSourceSelector({
 		defaultOptions?.targetTrackCount || 20
 	);
 
+	// State for a total length target, used instead of the track count
+	const [lengthMode, setLengthMode] = useState<PlaylistLengthMode>(
+		defaultOptions?.targetDuration ? 'duration' : 'tracks'
+	);
+	const [durationTarget, setDurationTarget] = useState<DurationTarget>(
+		defaultOptions?.targetDuration || DEFAULT_DURATION_TARGET
+	);
+
+	// State for scoring weight overrides
+	const [weightOverrides, setWeightOverrides] = useState<WeightOverrides>(
+		defaultOptions?.weightOverrides || {}
+	);
+
+	// State for the variety constraints
+	const [selectionConstraints, setSelectionConstraints] =
+		useState<SelectionConstraints>(
+			defaultOptions?.selectionConstraints ||
+				DEFAULT_SELECTION_CONSTRAINTS
+		);
+
+	// State for the playback order
+	const [sequencing, setSequencing] = useState<SequencingOption>(
+		defaultOptions?.sequencing || 'auto'
+	);
+
+	// State for hidden gems mode
+	const [hiddenGems, setHiddenGems] = useState<boolean>(
+		defaultOptions?.hiddenGems || false
+	);
+
 	// State for available playlists and estimates
 	const [playlists, setPlaylists] = useState<PlaylistInfo[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
@@ -101,6 +256,51 @@ export function PlaylistSourceSelector({
 		null
 	);
 
+	// Playlists the server suggested for the current prompt
+	const [suggestedPlaylistIds, setSuggestedPlaylistIds] = useState<string[]>(
+		[]
+	);
+	const [isSuggesting, setIsSuggesting] = useState(false);
+
+	// Search, sort and filter for long playlist lists
+	const [playlistSearch, setPlaylistSearch] = useState('');
+	const [playlistSort, setPlaylistSort] = useState<PlaylistSort>('recent');
+	const [ownerFilter, setOwnerFilter] = useState<PlaylistOwnerFilter>('all');
+
+	const visiblePlaylists = useMemo(() => {
+		const search = playlistSearch.trim().toLowerCase();
+		const filtered = playlists.filter((playlist) => {
+			if (
+				search &&
+				!playlist.name.toLowerCase().includes(search) &&
+				!playlist.description?.toLowerCase().includes(search)
+			) {
+				return false;
+			}
+			switch (ownerFilter) {
+				case 'mine':
+					return playlist.isOwn;
+				case 'followed':
+					return !playlist.isOwn;
+				case 'collaborative':
+					return playlist.isCollaborative;
+				default:
+					return true;
+			}
+		});
+
+		return filtered.sort((a, b) => {
+			switch (playlistSort) {
+				case 'size':
+					return b.trackCount - a.trackCount;
+				case 'name':
+					return a.name.localeCompare(b.name);
+				default:
+					return a.position - b.position;
+			}
+		});
+	}, [playlists, playlistSearch, playlistSort, ownerFilter]);
+
 	const { toast } = useToast();
 
 	// Fetch playlists and processing time estimates when component mounts
@@ -121,8 +321,24 @@ export function PlaylistSourceSelector({
 			sources,
 			processingMode,
 			targetTrackCount,
+			weightOverrides,
+			selectionConstraints,
+			sequencing,
+			hiddenGems,
+			targetDuration: lengthMode === 'duration' ? durationTarget : null,
 		});
-	}, [sources, processingMode, targetTrackCount, onChange]);
+	}, [
+		sources,
+		processingMode,
+		targetTrackCount,
+		weightOverrides,
+		selectionConstraints,
+		sequencing,
+		hiddenGems,
+		lengthMode,
+		durationTarget,
+		onChange,
+	]);
 
 	// Function to fetch user's playlists and initial estimates
 	const fetchPlaylists = async () => {
@@ -159,7 +375,7 @@ export function PlaylistSourceSelector({
 
 			// Transform the data to match our PlaylistInfo interface
 			const transformedPlaylists: PlaylistInfo[] =
-				playlistsData.items.map((item: any) => ({
+				playlistsData.items.map((item: any, index: number) => ({
 					id: item.id,
 					name: item.name,
 					description: item.description || '',
@@ -167,6 +383,9 @@ export function PlaylistSourceSelector({
 					imageUrl: item.images?.[0]?.url,
 					isCollaborative: item.collaborative || false,
 					isPublic: item.public || false,
+					isOwn: item.owner?.id === playlistsData.userId,
+					ownerName: item.owner?.display_name || item.owner?.id,
+					position: index,
 				}));
 
 			// Update playlists state
@@ -263,14 +482,18 @@ export function PlaylistSourceSelector({
 		});
 	};
 
-	// Handler for selecting all playlists
+	// Handler for selecting all playlists that match the search and filter
 	const handleSelectAllPlaylists = () => {
-		const allPlaylistIds = playlists.map((playlist) => playlist.id);
+		const visiblePlaylistIds = visiblePlaylists.map(
+			(playlist) => playlist.id
+		);
 		setSources((prev) => ({
 			...prev,
-			playlists: allPlaylistIds,
+			playlists: Array.from(
+				new Set([...prev.playlists, ...visiblePlaylistIds])
+			),
 		}));
-		console.log('Selected all playlists:', allPlaylistIds);
+		console.log('Selected all playlists:', visiblePlaylistIds);
 	};
 
 	// Handler for deselecting all playlists
@@ -282,6 +505,99 @@ export function PlaylistSourceSelector({
 		console.log('Deselected all playlists');
 	};
 
+	// Handler for checking the playlists that best match the prompt
+	const handleSuggestPlaylists = async () => {
+		try {
+			setIsSuggesting(true);
+
+			const token = await getValidAccessToken();
+			if (!token) return;
+
+			const response = await fetch('/api/ai/suggest-playlists', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					Authorization: `Bearer ${token}`,
+				},
+				body: JSON.stringify({ prompt }),
+			});
+
+			if (!response.ok) {
+				throw new Error('Failed to suggest playlists');
+			}
+
+			const data = await response.json();
+			const suggestedIds: string[] = (data.suggestions || []).map(
+				(suggestion: any) => suggestion.id
+			);
+
+			if (suggestedIds.length === 0) {
+				toast({
+					title: 'No matching playlists',
+					description: 'None of your playlists stand out for this prompt.',
+				});
+				return;
+			}
+
+			setSuggestedPlaylistIds(suggestedIds);
+			setSources((prev) => ({
+				...prev,
+				playlists: Array.from(
+					new Set([...prev.playlists, ...suggestedIds])
+				),
+			}));
+			toast({
+				title: 'Playlists suggested',
+				description: `Selected ${suggestedIds.length} playlists that fit your prompt.`,
+			});
+		} catch (error: any) {
+			toast({
+				title: 'Error suggesting playlists',
+				description: error.message || 'Something went wrong',
+				variant: 'destructive',
+			});
+		} finally {
+			setIsSuggesting(false);
+		}
+	};
+
+	// Handler for weight slider changes
+	const handleWeightChange = (feature: ScoringFeature, weight: number) => {
+		setWeightOverrides((prev) => ({ ...prev, [feature]: weight }));
+	};
+
+	// Handler for returning a feature to the AI-suggested weight
+	const handleWeightReset = (feature: ScoringFeature) => {
+		setWeightOverrides((prev) => {
+			const { [feature]: _removed, ...rest } = prev;
+			return rest;
+		});
+	};
+
+	// Handler for the numeric variety limits
+	const handleLimitChange = (
+		field: 'maxPerArtist' | 'maxPerAlbum' | 'recentPlaylistCount',
+		value: string
+	) => {
+		// At least one recent playlist has to be checked
+		const minimum = field === 'recentPlaylistCount' ? 1 : 0;
+		const parsed = Math.max(minimum, parseInt(value, 10) || 0);
+		setSelectionConstraints((prev) => ({ ...prev, [field]: parsed }));
+	};
+
+	const handleDurationChange = (
+		field: 'minutes' | 'toleranceMinutes',
+		value: string
+	) => {
+		// The server accepts up to 10 hours with up to an hour either way
+		const maximum = field === 'minutes' ? 600 : 60;
+		const parsed = Math.min(maximum, Math.max(0, parseFloat(value) || 0));
+		setDurationTarget((prev) => ({
+			...prev,
+			[field]: field === 'minutes' ? Math.max(1, parsed) : parsed,
+		}));
+	};
+
 	// Helper to get badge color based on warning level
 	const getWarningLevelColor = (level: string) => {
 		switch (level) {
@@ -378,12 +694,30 @@ export function PlaylistSourceSelector({
 								Your Playlists
 							</h3>
 							<div className='space-x-2'>
+								<Button
+									variant='outline'
+									size='sm'
+									onClick={handleSuggestPlaylists}
+									disabled={
+										isLoading ||
+										isSuggesting ||
+										playlists.length === 0 ||
+										!prompt.trim()
+									}
+									title='Select the playlists that best fit your prompt'>
+									{isSuggesting ? (
+										<Loader2 className='h-4 w-4 mr-1 animate-spin' />
+									) : (
+										<Sparkles className='h-4 w-4 mr-1' />
+									)}
+									Suggest for prompt
+								</Button>
 								<Button
 									variant='outline'
 									size='sm'
 									onClick={handleSelectAllPlaylists}
 									disabled={
-										isLoading || playlists.length === 0
+										isLoading || visiblePlaylists.length === 0
 									}>
 									Select All
 								</Button>
@@ -400,6 +734,48 @@ export function PlaylistSourceSelector({
 							</div>
 						</div>
 
+						{playlists.length > 0 && (
+							<div className='flex flex-wrap gap-2 mb-2'>
+								<Input
+									placeholder='Search playlists'
+									value={playlistSearch}
+									onChange={(e) => setPlaylistSearch(e.target.value)}
+									className='h-8 flex-1 min-w-[10rem]'
+								/>
+								<Select
+									value={ownerFilter}
+									onValueChange={(value) =>
+										setOwnerFilter(value as PlaylistOwnerFilter)
+									}>
+									<SelectTrigger className='h-8 w-36'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value='all'>All playlists</SelectItem>
+										<SelectItem value='mine'>Created by me</SelectItem>
+										<SelectItem value='followed'>Followed</SelectItem>
+										<SelectItem value='collaborative'>
+											Collaborative
+										</SelectItem>
+									</SelectContent>
+								</Select>
+								<Select
+									value={playlistSort}
+									onValueChange={(value) =>
+										setPlaylistSort(value as PlaylistSort)
+									}>
+									<SelectTrigger className='h-8 w-32'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value='recent'>Most recent</SelectItem>
+										<SelectItem value='size'>Largest</SelectItem>
+										<SelectItem value='name'>Name</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+						)}
+
 						{isLoading ? (
 							<div className='flex justify-center py-4'>
 								<Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
@@ -408,10 +784,14 @@ export function PlaylistSourceSelector({
 							<div className='text-center py-4 text-muted-foreground'>
 								No playlists found
 							</div>
+						) : visiblePlaylists.length === 0 ? (
+							<div className='text-center py-4 text-muted-foreground'>
+								No playlists match your search
+							</div>
 						) : (
 							<ScrollArea className='h-60 border rounded-md p-2'>
 								<div className='space-y-2'>
-									{playlists.map((playlist) => (
+									{visiblePlaylists.map((playlist) => (
 										<div
 											key={playlist.id}
 											className='flex items-center space-x-3 py-1'>
@@ -441,9 +821,21 @@ export function PlaylistSourceSelector({
 														className='font-medium cursor-pointer'>
 														{playlist.name}
 													</Label>
+													{suggestedPlaylistIds.includes(
+														playlist.id
+													) && (
+														<Badge
+															variant='secondary'
+															className='ml-2'>
+															Suggested
+														</Badge>
+													)}
 													<p className='text-xs text-muted-foreground truncate'>
 														{playlist.trackCount}{' '}
 														tracks
+														{!playlist.isOwn &&
+															playlist.ownerName &&
+															` · by ${playlist.ownerName}`}
 													</p>
 												</div>
 											</div>
@@ -530,6 +922,297 @@ export function PlaylistSourceSelector({
 					</RadioGroup>
 				</CardContent>
 			</Card>
+
+			{/* Playlist Length */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Playlist Length</CardTitle>
+					<CardDescription>
+						Ask for a number of tracks, or a total length such as
+						a 45 minute run
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<RadioGroup
+						value={lengthMode}
+						onValueChange={(value) =>
+							setLengthMode(value as PlaylistLengthMode)
+						}
+						className='space-y-3'>
+						<div className='flex items-center space-x-3'>
+							<RadioGroupItem value='tracks' id='length-tracks' />
+							<Label htmlFor='length-tracks'>Tracks</Label>
+							<Input
+								id='targetTrackCount'
+								type='number'
+								min={1}
+								max={100}
+								className='w-20 h-8'
+								value={targetTrackCount}
+								disabled={lengthMode !== 'tracks'}
+								onChange={(e) =>
+									setTargetTrackCount(
+										Math.min(
+											100,
+											Math.max(1, parseInt(e.target.value, 10) || 1)
+										)
+									)
+								}
+							/>
+						</div>
+						<div className='flex items-center space-x-3'>
+							<RadioGroupItem
+								value='duration'
+								id='length-duration'
+							/>
+							<Label htmlFor='length-duration'>Minutes</Label>
+							<Input
+								id='durationMinutes'
+								type='number'
+								min={1}
+								max={600}
+								className='w-20 h-8'
+								value={durationTarget.minutes}
+								disabled={lengthMode !== 'duration'}
+								onChange={(e) =>
+									handleDurationChange('minutes', e.target.value)
+								}
+							/>
+							<Label htmlFor='durationTolerance'>give or take</Label>
+							<Input
+								id='durationTolerance'
+								type='number'
+								min={0}
+								max={60}
+								className='w-16 h-8'
+								value={durationTarget.toleranceMinutes}
+								disabled={lengthMode !== 'duration'}
+								onChange={(e) =>
+									handleDurationChange(
+										'toleranceMinutes',
+										e.target.value
+									)
+								}
+							/>
+							<Label htmlFor='durationTolerance'>min</Label>
+						</div>
+					</RadioGroup>
+				</CardContent>
+			</Card>
+
+			{/* Variety Constraints */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Variety</CardTitle>
+					<CardDescription>
+						Keep a single artist or album from taking over the
+						playlist. Use 0 for no limit.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-4'>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='maxPerArtist'>
+								Max tracks per artist
+							</Label>
+							<Input
+								id='maxPerArtist'
+								type='number'
+								min={0}
+								value={selectionConstraints.maxPerArtist}
+								onChange={(e) =>
+									handleLimitChange(
+										'maxPerArtist',
+										e.target.value
+									)
+								}
+							/>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='maxPerAlbum'>
+								Max tracks per album
+							</Label>
+							<Input
+								id='maxPerAlbum'
+								type='number'
+								min={0}
+								value={selectionConstraints.maxPerAlbum}
+								onChange={(e) =>
+									handleLimitChange(
+										'maxPerAlbum',
+										e.target.value
+									)
+								}
+							/>
+						</div>
+					</div>
+
+					<div className='flex items-center space-x-2'>
+						<Checkbox
+							id='noConsecutiveArtist'
+							checked={selectionConstraints.noConsecutiveArtist}
+							onCheckedChange={(checked) =>
+								setSelectionConstraints((prev) => ({
+									...prev,
+									noConsecutiveArtist: checked as boolean,
+								}))
+							}
+						/>
+						<Label htmlFor='noConsecutiveArtist'>
+							Never play the same artist twice in a row
+						</Label>
+					</div>
+
+					<div className='flex items-center space-x-2'>
+						<Checkbox
+							id='excludeRecentAIPlaylists'
+							checked={
+								selectionConstraints.excludeRecentAIPlaylists
+							}
+							onCheckedChange={(checked) =>
+								setSelectionConstraints((prev) => ({
+									...prev,
+									excludeRecentAIPlaylists: checked as boolean,
+								}))
+							}
+						/>
+						<Label htmlFor='excludeRecentAIPlaylists'>
+							Skip tracks from my last
+						</Label>
+						<Input
+							id='recentPlaylistCount'
+							type='number'
+							min={1}
+							max={50}
+							className='w-16 h-8'
+							value={selectionConstraints.recentPlaylistCount}
+							disabled={
+								!selectionConstraints.excludeRecentAIPlaylists
+							}
+							onChange={(e) =>
+								handleLimitChange(
+									'recentPlaylistCount',
+									e.target.value
+								)
+							}
+						/>
+						<Label htmlFor='excludeRecentAIPlaylists'>
+							AI playlists
+						</Label>
+					</div>
+
+					<div className='flex items-start space-x-2'>
+						<Checkbox
+							id='hiddenGems'
+							checked={hiddenGems}
+							onCheckedChange={(checked) =>
+								setHiddenGems(checked as boolean)
+							}
+						/>
+						<div>
+							<Label htmlFor='hiddenGems'>Hidden gems</Label>
+							<p className='text-xs text-muted-foreground'>
+								Skip the hits and prefer lesser-played album
+								tracks from artists you already like
+							</p>
+						</div>
+					</div>
+				</CardContent>
+			</Card>
+
+			{/* Track Order */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Track Order</CardTitle>
+					<CardDescription>
+						Choose how the selected tracks are sequenced
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<RadioGroup
+						value={sequencing}
+						onValueChange={(value) =>
+							setSequencing(value as SequencingOption)
+						}
+						className='space-y-2'>
+						{SEQUENCING_OPTIONS.map((option) => (
+							<div
+								key={option.value}
+								className='flex items-start space-x-3'>
+								<RadioGroupItem
+									value={option.value}
+									id={`sequencing-${option.value}`}
+									className='mt-1'
+								/>
+								<div>
+									<Label
+										htmlFor={`sequencing-${option.value}`}
+										className='font-medium'>
+										{option.label}
+									</Label>
+									<p className='text-xs text-muted-foreground'>
+										{option.description}
+									</p>
+								</div>
+							</div>
+						))}
+					</RadioGroup>
+				</CardContent>
+			</Card>
+
+			{/* Scoring Weight Overrides */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Scoring Weights</CardTitle>
+					<CardDescription>
+						Override how much each feature counts when ranking
+						tracks. Features left on Auto use the weight suggested
+						by the AI.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className='space-y-4'>
+					{SCORING_FEATURES.map(({ key, label }) => {
+						const override = weightOverrides[key];
+						return (
+							<div key={key} className='space-y-2'>
+								<div className='flex items-center justify-between'>
+									<Label htmlFor={`weight-${key}`}>
+										{label}
+									</Label>
+									<div className='flex items-center space-x-2'>
+										<span className='text-xs text-muted-foreground'>
+											{override === undefined
+												? 'Auto'
+												: `${override.toFixed(1)}x`}
+										</span>
+										<Button
+											type='button'
+											variant='ghost'
+											size='sm'
+											onClick={() => handleWeightReset(key)}
+											disabled={override === undefined}>
+											Reset
+										</Button>
+									</div>
+								</div>
+								<Slider
+									id={`weight-${key}`}
+									min={0}
+									max={5}
+									step={0.5}
+									value={[override ?? 1]}
+									onValueChange={([value]) =>
+										handleWeightChange(key, value)
+									}
+									className={
+										override === undefined ? 'opacity-50' : ''
+									}
+								/>
+							</div>
+						);
+					})}
+				</CardContent>
+			</Card>
 		</div>
 	);
 }
@@ -0,0 +1,242 @@
+// Client for the playlist generation Server-Sent Events stream
+import { getValidAccessToken } from './fixed-auth';
+
+export interface GenerationEventHandlers {
+	onProgress?: (progress: any) => void;
+	onResult?: (result: any) => void;
+	onError?: (error: { message: string; error?: any }) => void;
+}
+
+/**
+ * Cancel a queued or running generation job
+ */
+export async function cancelGenerationJob(jobId: string): Promise<void> {
+	const token = await getValidAccessToken();
+	if (!token) {
+		throw new Error('No valid access token available');
+	}
+
+	const response = await fetch(`/api/ai/jobs/${jobId}`, {
+		method: 'DELETE',
+		headers: {
+			Authorization: `Bearer ${token}`,
+		},
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(
+			errorData.message || `Failed to cancel job: ${response.status}`
+		);
+	}
+}
+
+/**
+ * Resume a failed or cancelled generation job from its last completed step
+ */
+export async function resumeGenerationJob(jobId: string): Promise<void> {
+	const token = await getValidAccessToken();
+	if (!token) {
+		throw new Error('No valid access token available');
+	}
+
+	const response = await fetch(`/api/ai/jobs/${jobId}/resume`, {
+		method: 'POST',
+		headers: {
+			Authorization: `Bearer ${token}`,
+		},
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(
+			errorData.message || `Failed to resume job: ${response.status}`
+		);
+	}
+}
+
+/**
+ * Create the Spotify playlist from a reviewed draft. Progress and the final
+ * result arrive on the same job's event stream.
+ */
+export async function commitDraftPlaylist(
+	jobId: string,
+	trackIds: string[],
+	overrides: { name?: string; description?: string } = {}
+): Promise<void> {
+	const token = await getValidAccessToken();
+	if (!token) {
+		throw new Error('No valid access token available');
+	}
+
+	const response = await fetch(`/api/ai/jobs/${jobId}/commit`, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Authorization: `Bearer ${token}`,
+		},
+		body: JSON.stringify({ trackIds, ...overrides }),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(
+			errorData.message || `Failed to commit draft: ${response.status}`
+		);
+	}
+}
+
+// Times a stream that closes while its job is still running is reopened
+const MAX_RECONNECTS = 3;
+
+/**
+ * Get the state of a generation job
+ */
+async function fetchGenerationJob(jobId: string): Promise<any> {
+	const token = await getValidAccessToken();
+	if (!token) {
+		throw new Error('No valid access token available');
+	}
+
+	const response = await fetch(`/api/ai/jobs/${jobId}`, {
+		headers: {
+			Authorization: `Bearer ${token}`,
+		},
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(
+			errorData.message || `Failed to get job: ${response.status}`
+		);
+	}
+	return response.json();
+}
+
+/**
+ * Subscribe to the event stream of a generation job.
+ * EventSource can't send the Authorization header, so the stream is read
+ * with fetch and parsed here. If the stream closes before the result or an
+ * error arrives, the job's state is fetched instead and the stream reopened
+ * while the job is still running. Returns a function that closes the stream.
+ */
+export function subscribeToGenerationEvents(
+	jobId: string,
+	handlers: GenerationEventHandlers
+): () => void {
+	const controller = new AbortController();
+	// Whether the result or an error has been passed to the handlers
+	let finished = false;
+
+	const dispatch = (eventType: string, rawData: string) => {
+		let data: any;
+		try {
+			data = JSON.parse(rawData);
+		} catch (error) {
+			console.error('Invalid generation event payload:', rawData);
+			return;
+		}
+
+		switch (eventType) {
+			case 'progress':
+				handlers.onProgress?.(data);
+				break;
+			case 'result':
+				finished = true;
+				handlers.onResult?.(data);
+				break;
+			case 'error':
+				finished = true;
+				handlers.onError?.(data);
+				break;
+		}
+	};
+
+	const readStream = async () => {
+		const token = await getValidAccessToken();
+		if (!token) {
+			throw new Error('No valid access token available');
+		}
+
+		const response = await fetch(
+			`/api/ai/jobs/${jobId}/events`,
+			{
+				headers: {
+					Accept: 'text/event-stream',
+					Authorization: `Bearer ${token}`,
+				},
+				signal: controller.signal,
+			}
+		);
+
+		if (!response.ok || !response.body) {
+			throw new Error(`Failed to open progress stream: ${response.status}`);
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = '';
+
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+
+			// Events are separated by a blank line
+			let separatorIndex;
+			while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+				const rawEvent = buffer.slice(0, separatorIndex);
+				buffer = buffer.slice(separatorIndex + 2);
+
+				let eventType = 'message';
+				const dataLines: string[] = [];
+				rawEvent.split('\n').forEach((line) => {
+					if (line.startsWith('event:')) {
+						eventType = line.slice(6).trim();
+					} else if (line.startsWith('data:')) {
+						dataLines.push(line.slice(5).trim());
+					}
+				});
+
+				if (dataLines.length > 0) {
+					dispatch(eventType, dataLines.join('\n'));
+				}
+			}
+		}
+	};
+
+	// Read until the job finishes, falling back to its stored state when the
+	// stream is cut off
+	const follow = async () => {
+		for (let attempt = 0; ; attempt++) {
+			await readStream();
+			if (finished || controller.signal.aborted) return;
+
+			const job = await fetchGenerationJob(jobId);
+			if (job.status === 'succeeded') {
+				finished = true;
+				handlers.onResult?.(job.result);
+				return;
+			}
+			if (job.status === 'failed' || job.status === 'cancelled') {
+				finished = true;
+				handlers.onError?.({
+					message: job.error || `Generation job ${job.status}`,
+				});
+				return;
+			}
+			if (attempt >= MAX_RECONNECTS) {
+				throw new Error('Progress stream closed unexpectedly');
+			}
+		}
+	};
+
+	follow().catch((error) => {
+		if (controller.signal.aborted) return;
+		console.error('Error reading generation events:', error);
+		handlers.onError?.({ message: error.message });
+	});
+
+	return () => controller.abort();
+}
@@ -3,6 +3,7 @@ import session from 'express-session';
 import { registerRoutes } from './routes';
 import { setupVite, serveStatic, log } from './vite';
 import { connectToDatabase } from './config/database';
+import { recoverInterruptedJobs } from './services/generation-queue';
 import { setupSpotifyAuth } from './auth/spotify-auth';
 import spotifyRoutes from './routes/spotify-routes';
 import aiRoutes from './routes/ai-routes';
@@ -11,8 +12,8 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
-// Connect to MongoDB
-connectToDatabase();
+// Connect to MongoDB, then fail any generation jobs a previous run left behind
+connectToDatabase().then(recoverInterruptedJobs);
 
 const app = express();
 app.use(express.json());
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type CatalogEntryKind =
+  | 'audio_features'
+  | 'artist'
+  | 'track'
+  | 'playlist_tracks'
+  | 'estimated_features';
+
+export interface ICatalogEntry extends Document {
+  kind: CatalogEntryKind;
+  spotifyId: string; // Playlist tracks are keyed on "<playlist ID>:<snapshot_id>"
+  data: any; // null records that Spotify has nothing for this ID
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CatalogCacheSchema: Schema = new Schema(
+  {
+    kind: {
+      type: String,
+      enum: [
+        'audio_features',
+        'artist',
+        'track',
+        'playlist_tracks',
+        'estimated_features',
+      ],
+      required: true,
+    },
+    spotifyId: { type: String, required: true },
+    data: { type: Schema.Types.Mixed, default: null },
+    // MongoDB removes the entry once this date has passed
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  { timestamps: true, minimize: false }
+);
+
+CatalogCacheSchema.index({ kind: 1, spotifyId: 1 }, { unique: true });
+
+export default mongoose.model<ICatalogEntry>('CatalogCache', CatalogCacheSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type GenerationJobStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface IGenerationJob extends Document {
+  jobId: string;
+  spotifyUserId: string;
+  userId?: Schema.Types.ObjectId;
+  status: GenerationJobStatus;
+  request: Record<string, any>;
+  checkpoints: Record<string, { completedAt: Date; data: any }>;
+  currentStep?: string;
+  progress: {
+    stage: string;
+    progress: number;
+    message: string;
+  };
+  result?: any;
+  error?: string;
+  attempts: number;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GenerationJobSchema: Schema = new Schema(
+  {
+    jobId: { type: String, required: true, unique: true },
+    spotifyUserId: { type: String, required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User' },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'],
+      default: 'queued',
+    },
+    request: { type: Schema.Types.Mixed, required: true },
+    checkpoints: { type: Schema.Types.Mixed, default: {} },
+    currentStep: { type: String },
+    progress: {
+      stage: { type: String, default: 'queued' },
+      progress: { type: Number, default: 0 },
+      message: { type: String, default: 'Waiting to start...' },
+    },
+    result: { type: Schema.Types.Mixed },
+    error: { type: String },
+    attempts: { type: Number, default: 0 },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  { timestamps: true, minimize: false }
+);
+
+export default mongoose.model<IGenerationJob>(
+  'GenerationJob',
+  GenerationJobSchema
+);
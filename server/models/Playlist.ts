@@ -2,25 +2,29 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IPlaylist extends Document {
   name: string;
-  userId: Schema.Types.ObjectId;
+  userId?: Schema.Types.ObjectId;
+  spotifyUserId?: string;
   spotifyId: string;
   coverImage: string;
   description: string;
   isAIGenerated: boolean;
   tracksCount: number;
   duration: number;
+  trackIds: string[];
   createdAt: Date;
 }
 
 const PlaylistSchema: Schema = new Schema({
   name: { type: String, required: true },
-  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' }, // Not set for PKCE-only users
+  spotifyUserId: { type: String, index: true },
   spotifyId: { type: String, required: true },
   coverImage: { type: String },
   description: { type: String, default: '' },
   isAIGenerated: { type: Boolean, default: false },
   tracksCount: { type: Number, default: 0 },
   duration: { type: Number, default: 0 }, // Duration in seconds
+  trackIds: { type: [String], default: [] }, // Spotify track IDs, used to avoid repeats
   createdAt: { type: Date, default: Date.now }
 });
 
@@ -1,16 +1,114 @@
 import express, { Request, Response } from 'express';
 import spotifyApi from '../config/spotify';
-import { isAuthenticated } from '../auth/spotify-auth';
 import User from '../models/User';
 import Playlist from '../models/Playlist';
 import axios from 'axios';
-import OpenAI from 'openai';
-
-// Initialize OpenAI with API key from environment variable
-// NOTE: We should set this in environment variables, not directly in code
-const openai = new OpenAI({
-	apiKey: process.env.OPENAI_API_KEY || '',
-});
+import { z } from 'zod';
+import { IGenerationJob } from '../models/GenerationJob';
+import {
+	getProgressJob,
+	subscribeToJob,
+} from '../services/generation-progress';
+import {
+	GENERATION_STEPS,
+	GenerationJobContext,
+	JobCancelledError,
+	enqueueGenerationJob,
+	getGenerationJob,
+	cancelGenerationJob,
+	resumeGenerationJob,
+	commitDraftJob,
+} from '../services/generation-queue';
+import {
+	LLMProviderName,
+	containsKeyword,
+	RuleBasedProvider,
+	getLLMProvider,
+} from '../services/llm-provider';
+import {
+	PromptAnalysis,
+	FeatureWeights,
+	AudioFeature,
+	AUDIO_FEATURES,
+	PopularityLevel,
+	POPULARITY_RANGES,
+	resolveFeatureWeights,
+	violatesHardConstraints,
+	isUnverifiedByHardConstraints,
+	weightOverridesSchema,
+} from '../services/prompt-analysis';
+import {
+	SequencingStrategy,
+	SequencingStats,
+	SEQUENCING_STRATEGIES,
+	sequenceTracks,
+	measureTransitions,
+} from '../services/sequencing';
+import { ResolvedMoods, resolveMoods } from '../services/mood-lexicon';
+import {
+	PlaylistSegment,
+	SegmentLabel,
+	resolveSegments,
+	splitTrackCount,
+	splitDurationTarget,
+} from '../services/playlist-segments';
+import { ExcludedTrack, applyExclusions } from '../services/exclusions';
+import {
+	SelectionConstraints,
+	SelectionConstraintStats,
+	DEFAULT_SELECTION_CONSTRAINTS,
+	DurationTarget,
+	DurationFillStats,
+	applySelectionConstraints,
+	selectForDuration,
+	estimateTrackCount,
+	emptyConstraintStats,
+	addConstraintStats,
+	combineDurationFills,
+	spaceOutArtists,
+	getRecentAIPlaylistTrackIds,
+	selectionConstraintsSchema,
+	durationTargetSchema,
+} from '../services/track-selection';
+import {
+	CacheLookupStats,
+	readCatalog,
+	toCacheLookupStats,
+	writeCatalog,
+} from '../services/catalog-cache';
+import {
+	ConcurrencyLimiter,
+	getSpotifyRequestCounts,
+	setPlaylistTracks,
+	spotifyFetch,
+	streamPages,
+	trackSpotifyRequests,
+} from '../services/spotify-client';
+import {
+	PoolSamplingStats,
+	SourceSample,
+	sampleTrackPool,
+} from '../services/pool-sampling';
+import { TopKHeap } from '../services/top-k-heap';
+import {
+	FeatureProviderName,
+	estimationBatchLimit,
+	getFeatureProviders,
+	lookupFeatures,
+} from '../services/feature-provider';
+import {
+	fetchUserPlaylists,
+	getPlaylistSizes,
+	playlistTracksCacheKey,
+} from '../services/user-playlists';
+
+// Which provider produced the prompt analysis, reported with the result
+interface AnalysisProviderInfo {
+	name: LLMProviderName;
+	model: string;
+	fallbackFrom?: LLMProviderName; // Set when the configured provider failed
+	error?: string;
+}
 
 // Source selection interface for playlist generation
 interface PlaylistSources {
@@ -28,9 +126,10 @@ interface ProcessingConfig {
 	maxPlaylists: number; // Maximum playlists to process
 	useAudioFeatures: boolean; // Whether to fetch audio features
 	fetchAllPages: boolean; // Whether to paginate through all tracks
-	requestDelay: number; // Milliseconds between API requests
+	maxConcurrentRequests: number; // Spotify requests in flight while collecting
 	prioritizeByRelevance: boolean; // Whether to prioritize relevant playlists
 	targetPoolSize: number; // Ideal number of tracks to analyze
+	maxRecommendations: number; // Recommended tracks to request for discovery
 }
 
 // Processing configurations for each mode
@@ -40,39 +139,51 @@ const PROCESSING_CONFIGS: Record<ProcessingMode, ProcessingConfig> = {
 		maxPlaylists: 5,
 		useAudioFeatures: true,
 		fetchAllPages: false,
-		requestDelay: 50,
+		maxConcurrentRequests: 2,
 		prioritizeByRelevance: true,
 		targetPoolSize: 200,
+		maxRecommendations: 20,
 	},
 	standard: {
 		maxTracksPerPlaylist: 50,
 		maxPlaylists: 10,
 		useAudioFeatures: true,
 		fetchAllPages: false,
-		requestDelay: 100,
+		maxConcurrentRequests: 4,
 		prioritizeByRelevance: true,
 		targetPoolSize: 500,
+		maxRecommendations: 50,
 	},
 	comprehensive: {
 		maxTracksPerPlaylist: 100,
 		maxPlaylists: 20,
 		useAudioFeatures: true,
 		fetchAllPages: true,
-		requestDelay: 150,
+		maxConcurrentRequests: 6,
 		prioritizeByRelevance: true,
 		targetPoolSize: 1000,
+		maxRecommendations: 100,
 	},
 	complete: {
 		maxTracksPerPlaylist: 0, // No limit
 		maxPlaylists: 50,
 		useAudioFeatures: true,
 		fetchAllPages: true,
-		requestDelay: 200,
+		maxConcurrentRequests: 6,
 		prioritizeByRelevance: false,
 		targetPoolSize: 5000,
+		maxRecommendations: 100,
 	},
 };
 
+// The processing mode and track count of a generation request
+const generationSizeSchema = z.object({
+	processingMode: z
+		.enum(['quick', 'standard', 'comprehensive', 'complete'])
+		.default('standard'),
+	targetTrackCount: z.coerce.number().int().positive().default(20),
+});
+
 // Function to estimate processing time based on source selection and mode
 function estimateProcessingTime(
 	sources: PlaylistSources,
@@ -109,9 +220,10 @@ function estimateProcessingTime(
 			totalEstimatedTracks += tracksToProcess;
 		}
 
-		// Adjust for pagination if needed
+		// Adjust for pagination if needed; pages are fetched in parallel
 		if (config.fetchAllPages) {
-			playlistTime += (totalEstimatedTracks / 100) * 2; // 2 seconds per 100 tracks for pagination
+			playlistTime +=
+				((totalEstimatedTracks / 100) * 2) / config.maxConcurrentRequests; // 2 seconds per 100 tracks for pagination
 		}
 
 		// Time for processing tracks (API calls, audio features, etc.)
@@ -123,14 +235,16 @@ function estimateProcessingTime(
 		? Math.min(config.targetPoolSize, 500) * 0.02 // 0.02 seconds per track for audio features
 		: 0;
 
+	// Sources are collected in parallel, so the slowest one sets the pace
+	const collectionTime = Math.max(
+		likedSongsTime,
+		topTracksTime,
+		recommendationsTime,
+		playlistTime
+	);
+
 	// Total estimated time
-	const estimatedSeconds =
-		baseTime +
-		likedSongsTime +
-		topTracksTime +
-		recommendationsTime +
-		playlistTime +
-		audioFeaturesTime;
+	const estimatedSeconds = baseTime + collectionTime + audioFeaturesTime;
 
 	// Determine warning level
 	let warningLevel: 'low' | 'medium' | 'high' = 'low';
@@ -153,6 +267,7 @@ interface ProcessingProgress {
 	progress: number; // 0-100
 	message: string;
 	remainingTimeEstimate: number;
+	sources: Record<string, number>; // Tracks collected per source
 }
 
 const router = express.Router();
@@ -175,13 +290,9 @@ async function getAvailableGenreSeeds(accessToken: string): Promise<string[]> {
 
 	try {
 		console.log('Fetching available genre seeds from Spotify API');
-		const response = await fetch(
-			'https://api.spotify.com/v1/recommendations/available-genre-seeds',
-			{
-				headers: {
-					Authorization: `Bearer ${accessToken}`,
-				},
-			}
+		const response = await spotifyFetch(
+			accessToken,
+			'/recommendations/available-genre-seeds'
 		);
 
 		if (!response.ok) {
@@ -206,7 +317,7 @@ async function getAvailableGenreSeeds(accessToken: string): Promise<string[]> {
 async function getRecommendations(
 	accessToken: string,
 	seedGenres: string[],
-	audioFeatures: any,
+	audioFeatures: PromptAnalysis,
 	limit: number = 50,
 	seedTracks: string[] = [],
 	seedArtists: string[] = []
@@ -415,46 +526,25 @@ async function getRecommendations(
 			);
 		}
 
-		// Handle popularity based on the analysis or filter logic
-		if (audioFeatures.popularity_level) {
-			// Use the explicit popularity level if provided
-			switch (audioFeatures.popularity_level.toLowerCase()) {
-				case 'high':
-					seedParams.append('min_popularity', '70');
-					break;
-				case 'medium':
-					seedParams.append('min_popularity', '40');
-					seedParams.append('max_popularity', '80');
-					break;
-				case 'low':
-					seedParams.append('max_popularity', '40');
-					break;
-				// For 'any', don't set popularity constraints
-			}
-		} else {
-			// Fall back to filter_logic analysis
-			const filterLogic = audioFeatures.filter_logic.toLowerCase();
-			if (
-				filterLogic.includes('popular') ||
-				filterLogic.includes('mainstream')
-			) {
+		// Popularity range for the analysis' popularity level
+		switch (audioFeatures.popularity_level) {
+			case 'high':
 				seedParams.append('min_popularity', '70');
-			} else if (
-				filterLogic.includes('obscure') ||
-				filterLogic.includes('underground')
-			) {
-				seedParams.append('max_popularity', '30');
-			}
+				break;
+			case 'medium':
+				seedParams.append('min_popularity', '40');
+				seedParams.append('max_popularity', '80');
+				break;
+			case 'low':
+				seedParams.append('max_popularity', '40');
+				break;
+			// For 'any', don't set popularity constraints
 		}
 
 		const url = `https://api.spotify.com/v1/recommendations?${seedParams.toString()}`;
 		console.log(`Recommendation request URL: ${url}`);
 
-		const response = await fetch(url, {
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
-			},
-		});
+		const response = await spotifyFetch(accessToken, url);
 
 		if (!response.ok) {
 			throw new Error(
@@ -533,11 +623,7 @@ const setupSpotifyClient = async (
 
 			// Validate token by making a direct API call
 			try {
-				const response = await fetch('https://api.spotify.com/v1/me', {
-					headers: {
-						Authorization: `Bearer ${accessToken}`,
-					},
-				});
+				const response = await spotifyFetch(accessToken, '/me');
 
 				if (!response.ok) {
 					return res.status(401).json({
@@ -578,348 +664,550 @@ const setupSpotifyClient = async (
 // Apply the middleware to all routes
 router.use(setupSpotifyClient);
 
-// Function to analyze user prompt using GPT-4
-async function analyzePlaylistPrompt(prompt: string) {
-	try {
-		console.log(`Analyzing prompt with GPT-4: "${prompt}"`);
-
-		const completion = await openai.chat.completions.create({
-			model: 'gpt-4-turbo',
-			messages: [
-				{
-					role: 'system',
-					content: `You are a music curation expert who analyzes playlist requests and translates them into specific characteristics that can be used to filter songs.
-					
-					Output a JSON object with the following parameters:
-					- genres: Array of relevant music genres (string[]). Be specific and accurate with genre names. Include both broad genres and specific sub-genres when appropriate.
-					- moods: Array of moods (string[])
-					- energy_range: Range of energy values [min, max] (0.0-1.0)
-					- tempo_range: Range of BPM [min, max] (e.g., [60, 180])
-					- danceability_range: Range of danceability values [min, max] (0.0-1.0)
-					- acousticness_range: Range of acousticness values [min, max] (0.0-1.0)
-					- instrumentalness_range: Range of instrumentalness values [min, max] (0.0-1.0)
-					- valence_range: Range of valence (happiness) values [min, max] (0.0-1.0)
-					- description: Brief description of the playlist style (KEEP UNDER 100 CHARACTERS)
-					- filter_logic: Concise explanation of the most important parameters to prioritize
-					- popularity_level: String indicating desired popularity level ("high", "medium", "low", or "any")
-					
-					For audio features:
-					- Energy represents intensity and activity (0.0 to 1.0)
-					- Danceability describes how suitable a track is for dancing (0.0 to 1.0)
-					- Acousticness represents acoustic elements vs electronic/electric (0.0 to 1.0)
-					- Instrumentalness predicts vocals (0.0) vs instrumental tracks (1.0)
-					- Valence describes musical positiveness/happiness (0.0 to 1.0)
-					
-					Be specific but concise in your analysis. Your output will be used directly to filter songs. KEEP THE DESCRIPTION UNDER 100 CHARACTERS.`,
-				},
-				{
-					role: 'user',
-					content: `Analyze this playlist request for a complex, accurate representation of genres and audio features: "${prompt}"`,
-				},
-			],
-			response_format: { type: 'json_object' },
-		});
-
-		// Fix for linter error - safely handle null message content
-		const content = completion.choices[0].message.content || '{}';
-		const analysis = JSON.parse(content);
-
-		// Ensure the description is within limits
-		if (analysis.description && analysis.description.length > 100) {
-			analysis.description =
-				analysis.description.substring(0, 97) + '...';
-		}
-
-		// Ensure all expected properties exist
-		const defaultAnalysis = {
-			genres: [],
-			moods: ['general'],
-			energy_range: [0.0, 1.0],
-			tempo_range: [0, 300],
-			danceability_range: [0.0, 1.0],
-			acousticness_range: [0.0, 1.0],
-			instrumentalness_range: [0.0, 1.0],
-			valence_range: [0.0, 1.0],
-			description: 'General playlist based on popular tracks',
-			filter_logic: 'Sort by popularity as fallback',
-			popularity_level: 'medium',
-		};
-
-		// Merge with defaults for any missing properties
-		const mergedAnalysis = { ...defaultAnalysis, ...analysis };
+// Analyze the prompt with the configured provider. If it fails, the offline
+// rule-based analyzer is used instead and the failure is reported.
+async function analyzePlaylistPrompt(prompt: string): Promise<{
+	analysis: PromptAnalysis;
+	provider: AnalysisProviderInfo;
+}> {
+	const provider = getLLMProvider();
 
+	try {
+		console.log(
+			`Analyzing prompt with ${provider.name} (${provider.model}): "${prompt}"`
+		);
+		const analysis = await provider.analyzePrompt(prompt);
 		console.log(
-			'GPT-4 analysis complete:',
-			JSON.stringify(mergedAnalysis, null, 2)
+			`${provider.name} analysis complete:`,
+			JSON.stringify(analysis, null, 2)
 		);
-		return mergedAnalysis;
+		return {
+			analysis,
+			provider: { name: provider.name, model: provider.model },
+		};
 	} catch (error: any) {
-		console.error('Error analyzing prompt with GPT-4:', error.message);
-		// Return default values if GPT-4 analysis fails
+		console.error(
+			`Error analyzing prompt with ${provider.name}, using rule-based analysis:`,
+			error.message
+		);
+		const fallback = new RuleBasedProvider();
 		return {
-			genres: [],
-			moods: ['general'],
-			energy_range: [0.0, 1.0],
-			tempo_range: [0, 300],
-			danceability_range: [0.0, 1.0],
-			acousticness_range: [0.0, 1.0],
-			instrumentalness_range: [0.0, 1.0],
-			valence_range: [0.0, 1.0],
-			description: 'General playlist based on popular tracks',
-			filter_logic: 'Sort by popularity as fallback',
-			popularity_level: 'medium',
+			analysis: await fallback.analyzePrompt(prompt),
+			provider: {
+				name: fallback.name,
+				model: fallback.model,
+				fallbackFrom: provider.name,
+				error: error.message,
+			},
 		};
 	}
 }
 
-// Function to apply AI-generated filters to tracks
-function filterTracksByAIAnalysis(
-	tracks: any[],
-	analysis: any,
-	maxTracks: number = 20
-) {
-	console.log(
-		`Starting AI filtering on ${tracks.length} tracks with analysis:`,
-		JSON.stringify(analysis, null, 2)
+// How far outside a target range a feature can be before it scores nothing
+const RANGE_FALLOFF: Record<AudioFeature, number> = {
+	energy: 0.3,
+	tempo: 40, // BPM
+	danceability: 0.3,
+	acousticness: 0.3,
+	valence: 0.3,
+	instrumentalness: 0.3,
+};
+
+// Score a feature value 0-10 against a [min, max] range: 10 inside the range,
+// then linearly down to 0 at `falloff` outside it
+function scoreFeatureInRange(
+	value: number | undefined,
+	[min, max]: [number, number],
+	falloff: number
+): { score: number; inRange: boolean } {
+	if (typeof value !== 'number' || isNaN(value)) {
+		return { score: 0, inRange: false };
+	}
+
+	if (value >= min && value <= max) {
+		return { score: 10, inRange: true };
+	}
+
+	const distance = value < min ? min - value : value - max;
+	return { score: 10 * Math.max(0, 1 - distance / falloff), inRange: false };
+}
+
+// Popularity points outside the target at which a track scores nothing
+const POPULARITY_FALLOFF = 30;
+
+// Score a track's popularity 0-10 against the requested level. Without a
+// target ('any') popularity only breaks ties, and tracks above 70 count as
+// in range.
+function scorePopularity(
+	popularity: number,
+	level: PopularityLevel
+): { score: number; inRange: boolean } {
+	if (level === 'any') {
+		return { score: popularity / 10, inRange: popularity > 70 };
+	}
+	return scoreFeatureInRange(
+		popularity,
+		POPULARITY_RANGES[level],
+		POPULARITY_FALLOFF
 	);
+}
 
-	// Log how many tracks have audio features
-	const tracksWithAudioFeatures = tracks.filter((track) => track.features);
-	console.log(
-		`${tracksWithAudioFeatures.length} out of ${tracks.length} tracks have audio features`
+// Hidden gems mode: the artists the user already likes, whose lesser-played
+// album tracks are preferred
+interface HiddenGemsContext {
+	familiarArtistIds: Set<string>;
+}
+
+// Tracks more popular than this are penalized in hidden gems mode, up to the
+// full penalty at 30 points above it
+const HIDDEN_GEM_MAX_POPULARITY = 50;
+
+// Add the artists of the user's liked songs and top tracks among the given
+// tracks to artistIds
+function collectFamiliarArtistIds(tracks: any[], artistIds: Set<string>) {
+	for (const track of tracks) {
+		if (track.source !== 'liked_songs' && track.source !== 'top_tracks') {
+			continue;
+		}
+		for (const artist of track.artists || []) {
+			if (artist.id) artistIds.add(artist.id);
+		}
+	}
+}
+
+// Hidden gems score from -10 to 10: popular tracks lose points, and album
+// tracks by familiar artists gain more the less they have been played
+function scoreHiddenGem(track: any, context: HiddenGemsContext): number {
+	const popularity = track.popularity || 0;
+	if (popularity > HIDDEN_GEM_MAX_POPULARITY) {
+		return -10 * Math.min(1, (popularity - HIDDEN_GEM_MAX_POPULARITY) / 30);
+	}
+
+	const albumType = track.album?.album_type;
+	const isAlbumTrack = albumType !== 'single' && albumType !== 'compilation';
+	const isFamiliar = (track.artists || []).some((artist: any) =>
+		context.familiarArtistIds.has(artist.id)
 	);
+	// The user's top tracks are the ones they play most, not hidden gems
+	if (!isAlbumTrack || !isFamiliar || track.source === 'top_tracks') {
+		return 0;
+	}
+	return 10 * (1 - popularity / HIDDEN_GEM_MAX_POPULARITY);
+}
 
-	// If we don't have enough tracks with features, include some without features
-	let candidateTracks = tracksWithAudioFeatures;
-	if (candidateTracks.length < maxTracks * 2) {
-		// We need more candidate tracks - include tracks without features
-		console.log(
-			`Not enough tracks with features, including tracks without features in selection pool`
-		);
-		// Sort tracks without features by popularity
-		const tracksWithoutFeatures = tracks
-			.filter((track) => !track.features)
-			.sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
-			.slice(0, maxTracks * 3); // Get top tracks by popularity
+// How well a track's popularity fits the request, used to rank tracks
+// without audio features
+function scorePopularityFit(
+	track: any,
+	analysis: PromptAnalysis,
+	hiddenGems: HiddenGemsContext | null
+): number {
+	const popularity = track.popularity || 0;
+	if (!hiddenGems) {
+		return scorePopularity(popularity, analysis.popularity_level).score;
+	}
+	return (
+		scorePopularity(popularity, 'low').score +
+		scoreHiddenGem(track, hiddenGems)
+	);
+}
 
-		candidateTracks = [
-			...tracksWithAudioFeatures,
-			...tracksWithoutFeatures,
-		];
-		console.log(
-			`Selection pool now has ${candidateTracks.length} tracks (${tracksWithAudioFeatures.length} with features, ${tracksWithoutFeatures.length} without)`
-		);
-	}
-
-	// Calculate weighted score for each track instead of binary filtering
-	const scoredTracks = candidateTracks
-		.map((track) => {
-			// Base score starts at 0
-			let score = 0;
-
-			if (track.features) {
-				const features = track.features;
-				// Identify primary feature from filter_logic
-				const filterLogic = analysis.filter_logic.toLowerCase();
-
-				// Score based on how well each track matches the target ranges
-				// Formula: 1 - (distance from ideal / possible range)
-
-				// Energy score (0-10 points)
-				const energyIdeal =
-					(analysis.energy_range[0] + analysis.energy_range[1]) / 2;
-				const energyDistance = Math.abs(features.energy - energyIdeal);
-				const energyScore = 10 * (1 - energyDistance);
-
-				// Tempo score (0-10 points, normalized for the large range)
-				const tempoIdeal =
-					(analysis.tempo_range[0] + analysis.tempo_range[1]) / 2;
-				const tempoDistance =
-					Math.abs(features.tempo - tempoIdeal) / 200; // Normalize by max possible distance
-				const tempoScore = 10 * (1 - Math.min(1, tempoDistance));
-
-				// Danceability score (0-10 points)
-				const danceabilityIdeal =
-					(analysis.danceability_range[0] +
-						analysis.danceability_range[1]) /
-					2;
-				const danceabilityDistance = Math.abs(
-					features.danceability - danceabilityIdeal
-				);
-				const danceabilityScore = 10 * (1 - danceabilityDistance);
-
-				// Acousticness score (0-10 points)
-				const acousticnessIdeal =
-					(analysis.acousticness_range[0] +
-						analysis.acousticness_range[1]) /
-					2;
-				const acousticnessDistance = Math.abs(
-					features.acousticness - acousticnessIdeal
-				);
-				const acousticnessScore = 10 * (1 - acousticnessDistance);
+// Score a track 0-10 against each lexicon mood from the analysis, by how well
+// its features sit in the mood's region. The overall mood score is the mean of
+// the moods the track has features for.
+function scoreMoods(
+	features: Record<string, any>,
+	moods: ResolvedMoods
+): { score: number; moodScores: Record<string, number> } {
+	const moodScores: Record<string, number> = {};
+	for (const { mood, region } of moods.regions) {
+		let total = 0;
+		let count = 0;
+		for (const [feature, range] of Object.entries(region)) {
+			const key = feature as AudioFeature;
+			if (typeof features[key] !== 'number') continue;
+
+			const result = scoreFeatureInRange(
+				features[key],
+				range,
+				RANGE_FALLOFF[key]
+			);
+			total += result.score * (features.confidence?.[key] ?? 1);
+			count++;
+		}
+		if (count > 0) {
+			moodScores[mood] = total / count;
+		}
+	}
 
-				// Valence score (0-10 points)
-				const valenceIdeal =
-					(analysis.valence_range[0] + analysis.valence_range[1]) / 2;
-				const valenceDistance = Math.abs(
-					features.valence - valenceIdeal
-				);
-				const valenceScore = 10 * (1 - valenceDistance);
-
-				// Instrumentalness score (0-10 points)
-				const instrumentalnessIdeal =
-					(analysis.instrumentalness_range[0] +
-						analysis.instrumentalness_range[1]) /
-					2;
-				const instrumentalnessDistance = Math.abs(
-					features.instrumentalness - instrumentalnessIdeal
-				);
-				const instrumentalnessScore =
-					10 * (1 - instrumentalnessDistance);
-
-				// Weight scores based on filter_logic
-				if (filterLogic.includes('energy')) {
-					score += energyScore * 3;
-					score += tempoScore * 1.5;
-					score +=
-						danceabilityScore +
-						valenceScore +
-						acousticnessScore +
-						instrumentalnessScore;
-				} else if (
-					filterLogic.includes('tempo') ||
-					filterLogic.includes('bpm')
-				) {
-					score += tempoScore * 3;
-					score += energyScore * 1.5;
-					score +=
-						danceabilityScore +
-						valenceScore +
-						acousticnessScore +
-						instrumentalnessScore;
-				} else if (filterLogic.includes('dance')) {
-					score += danceabilityScore * 3;
-					score += energyScore * 1.5;
-					score +=
-						tempoScore +
-						valenceScore +
-						acousticnessScore +
-						instrumentalnessScore;
-				} else if (filterLogic.includes('acoustic')) {
-					score += acousticnessScore * 3;
-					score += valenceScore * 1.5;
-					score +=
-						energyScore +
-						tempoScore +
-						danceabilityScore +
-						instrumentalnessScore;
-				} else if (filterLogic.includes('instrument')) {
-					score += instrumentalnessScore * 3;
-					score += acousticnessScore * 1.5;
-					score +=
-						energyScore +
-						tempoScore +
-						danceabilityScore +
-						valenceScore;
-				} else if (
-					filterLogic.includes('valence') ||
-					filterLogic.includes('happ')
-				) {
-					score += valenceScore * 3;
-					score += energyScore * 1.5;
-					score +=
-						tempoScore +
-						danceabilityScore +
-						acousticnessScore +
-						instrumentalnessScore;
-				} else {
-					// Balanced approach if no specific emphasis
-					score +=
-						energyScore +
-						tempoScore +
-						danceabilityScore +
-						valenceScore +
-						acousticnessScore +
-						instrumentalnessScore;
-				}
+	const scores = Object.values(moodScores);
+	return {
+		score:
+			scores.length > 0
+				? scores.reduce((sum, value) => sum + value, 0) / scores.length
+				: 0,
+		moodScores,
+	};
+}
 
-				// Store the score details
-				track.scoreDetails = {
-					energy: energyScore,
-					tempo: tempoScore,
-					danceability: danceabilityScore,
-					acousticness: acousticnessScore,
-					valence: valenceScore,
-					instrumentalness: instrumentalnessScore,
-					genre: 0,
-					mood: 0,
-				};
-			}
+// Weighted score for one track instead of binary filtering. Returns a scored
+// copy, leaving the given track untouched.
+function scoreTrack(
+	track: any,
+	analysis: PromptAnalysis,
+	weights: FeatureWeights,
+	hiddenGems: HiddenGemsContext | null = null
+): any {
+	// Base score starts at 0
+	let score = 0;
+	let scoreDetails: any;
+
+	if (track.features) {
+		const features = track.features;
+
+		// Full credit anywhere inside a target range, falling off outside it.
+		// Some providers only estimate a few features; the ones they have are
+		// scaled up to the full weight so those tracks aren't marked down.
+		// Estimated features count in proportion to their confidence.
+		const featureScores: Partial<Record<AudioFeature, number>> = {};
+		const inRange: Partial<Record<AudioFeature, boolean>> = {};
+		let featureScore = 0;
+		let knownWeight = 0;
+		let totalWeight = 0;
+		for (const feature of AUDIO_FEATURES) {
+			totalWeight += weights[feature];
+			if (typeof features[feature] !== 'number') continue;
+
+			const result = scoreFeatureInRange(
+				features[feature],
+				analysis[`${feature}_range`],
+				RANGE_FALLOFF[feature]
+			);
+			featureScores[feature] = result.score;
+			inRange[feature] = result.inRange;
+			const confidence = features.confidence?.[feature] ?? 1;
+			featureScore += result.score * weights[feature] * confidence;
+			knownWeight += weights[feature];
+		}
+		if (knownWeight > 0) {
+			score += featureScore * (totalWeight / knownWeight);
+		}
 
-			// Genre score (0-15 points) - significant bonus for genre matches
-			let genreScore = 0;
-			if (track.extractedGenres && analysis.genres.length > 0) {
-				const trackGenres = new Set(
-					track.extractedGenres.map((g: string) => g.toLowerCase())
-				);
-				const promptGenres = analysis.genres.map((g: string) =>
-					g.toLowerCase()
-				);
+		// Moods pull tracks towards their region of feature space on top of
+		// the analysis ranges
+		const mood = scoreMoods(features, resolveMoods(analysis.moods));
+		score += mood.score * weights.mood;
+
+		// Store the score details
+		scoreDetails = {
+			...featureScores,
+			genre: 0,
+			mood: mood.score,
+			moodScores: mood.moodScores,
+			inRange,
+			featureSource: track.featureSource || null,
+			estimated: Boolean(features.estimated),
+			...(features.estimated ? { confidence: features.confidence } : {}),
+		};
+	}
+
+	// Genre score (0-15 points) - significant bonus for genre matches
+	let genreScore = 0;
+	if (track.extractedGenres && analysis.genres.length > 0) {
+		const trackGenres = new Set(
+			track.extractedGenres.map((g: string) => g.toLowerCase())
+		);
+		const promptGenres = analysis.genres.map((g: string) => g.toLowerCase());
 
-				// Check for exact matches (3 points each)
-				promptGenres.forEach((genre: string) => {
-					if (trackGenres.has(genre)) {
-						genreScore += 3;
+		// Check for exact matches (3 points each)
+		promptGenres.forEach((genre: string) => {
+			if (trackGenres.has(genre)) {
+				genreScore += 3;
+			}
+		});
+
+		// Check for partial matches (1.5 points each)
+		if (genreScore === 0) {
+			// Only check partial matches if no exact matches
+			track.extractedGenres.forEach((trackGenre: string) => {
+				const trackGenreLower = trackGenre.toLowerCase();
+				promptGenres.forEach((promptGenre: string) => {
+					if (
+						trackGenreLower.includes(promptGenre) ||
+						promptGenre.includes(trackGenreLower)
+					) {
+						genreScore += 1.5;
 					}
 				});
+			});
+		}
 
-				// Check for partial matches (1.5 points each)
-				if (genreScore === 0) {
-					// Only check partial matches if no exact matches
-					track.extractedGenres.forEach((trackGenre: string) => {
-						const trackGenreLower = trackGenre.toLowerCase();
-						promptGenres.forEach((promptGenre: string) => {
-							if (
-								trackGenreLower.includes(promptGenre) ||
-								promptGenre.includes(trackGenreLower)
-							) {
-								genreScore += 1.5;
-							}
-						});
-					});
-				}
+		// Cap genre score at 15
+		genreScore = Math.min(15, genreScore);
 
-				// Cap genre score at 15
-				genreScore = Math.min(15, genreScore);
+		if (scoreDetails) {
+			scoreDetails.genre = genreScore;
+		}
+	}
 
-				if (track.scoreDetails) {
-					track.scoreDetails.genre = genreScore;
-				}
-			}
+	// Popularity follows the requested level; hidden gems always aim low
+	const popularity = scorePopularity(
+		track.popularity || 0,
+		hiddenGems ? 'low' : analysis.popularity_level
+	);
+	score += popularity.score * weights.popularity;
+	const hiddenGemScore = hiddenGems ? scoreHiddenGem(track, hiddenGems) : 0;
+	score += hiddenGemScore * weights.popularity;
+	if (scoreDetails) {
+		scoreDetails.popularity = popularity.score;
+		if (hiddenGems) scoreDetails.hiddenGem = hiddenGemScore;
+	}
+
+	// Add genre scores
+	score += genreScore * weights.genre;
+
+	// Always include at least some tracks of the requested popularity
+	if (!track.features && popularity.inRange) {
+		score += 20; // Boost tracks without features
+	}
+
+	return {
+		...track,
+		score,
+		...(scoreDetails ? { scoreDetails } : {}),
+	};
+}
 
-			// Add popularity for tracks without audio features or as a tiebreaker
-			const popularityScore = (track.popularity || 0) / 10;
-			score += popularityScore;
+// Most excluded tracks listed in the response; the rest are only counted
+const MAX_LISTED_EXCLUSIONS = 200;
+
+// Counts over the whole pool, gathered while it streams through scoring
+interface PoolStats {
+	tracksAnalyzed: number;
+	tracksWithFeatures: number;
+	tracksWithGenres: number;
+	// Tracks with features per provider
+	featureSources: Record<string, number>;
+	excludedByHardConstraints: number;
+	unverifiedByHardConstraints: number;
+	// Tracks the prompt ruled out, up to MAX_LISTED_EXCLUSIONS of them
+	excludedTracks: ExcludedTrack[];
+	excludedTrackCount: number;
+}
 
-			// Add genre scores
-			score += genreScore;
+function emptyPoolStats(): PoolStats {
+	return {
+		tracksAnalyzed: 0,
+		tracksWithFeatures: 0,
+		tracksWithGenres: 0,
+		featureSources: {},
+		excludedByHardConstraints: 0,
+		unverifiedByHardConstraints: 0,
+		excludedTracks: [],
+		excludedTrackCount: 0,
+	};
+}
 
-			// Always include at least some popular tracks
-			if (!track.features && track.popularity > 70) {
-				score += 20; // Boost popular tracks without features
+// Count a window of enriched tracks into the pool stats
+function addPoolStats(
+	stats: PoolStats,
+	tracks: any[],
+	analysis: PromptAnalysis
+) {
+	for (const track of tracks) {
+		stats.tracksAnalyzed++;
+		if (track.extractedGenres) stats.tracksWithGenres++;
+		if (track.features) {
+			stats.tracksWithFeatures++;
+			if (track.featureSource) {
+				stats.featureSources[track.featureSource] =
+					(stats.featureSources[track.featureSource] || 0) + 1;
 			}
+		}
+		if (violatesHardConstraints(track, analysis.hard_constraints)) {
+			stats.excludedByHardConstraints++;
+		} else if (
+			isUnverifiedByHardConstraints(track, analysis.hard_constraints)
+		) {
+			stats.unverifiedByHardConstraints++;
+		}
+	}
+}
 
-			return {
-				...track,
-				score,
-			};
-		})
-		.sort((a, b) => b.score - a.score); // Sort by score, highest first
+// Scored tracks kept per track to select, leaving the selection constraints
+// plenty of alternatives when they skip tracks
+const SCORED_CANDIDATES_PER_TRACK = 20;
+
+// The best candidates of one segment, kept from the whole pool
+interface SegmentCandidates {
+	scored: any[]; // Tracks with features, best score first
+	popular: any[]; // Tracks without features, best popularity fit first
+	withFeaturesCount: number;
+}
+
+// Scores tracks one at a time into bounded heaps as the pool streams past,
+// so only the best candidates are ever kept
+class CandidateCollector {
+	// Tracks with features by score
+	private scoredHeap: TopKHeap<any>;
+	// Tracks without features, closest to the requested popularity first
+	private popularHeap: TopKHeap<any>;
+	private trackCount = 0;
+	private excludedCount = 0;
+	private unverifiedCount = 0;
+	private withFeaturesCount = 0;
+
+	// reserve: room for tracks the selection will skip, e.g. recently used
+	// ones or those taken by earlier segments
+	constructor(
+		private analysis: PromptAnalysis,
+		private maxTracks: number,
+		private weights: FeatureWeights,
+		private hiddenGems: HiddenGemsContext | null,
+		reserve: number
+	) {
+		const capacity = maxTracks * SCORED_CANDIDATES_PER_TRACK + reserve;
+		this.scoredHeap = new TopKHeap<any>(capacity);
+		this.popularHeap = new TopKHeap<any>(capacity);
+	}
+
+	add(track: any) {
+		this.trackCount++;
+
+		// Hard constraints exclude tracks outright instead of lowering their score
+		if (violatesHardConstraints(track, this.analysis.hard_constraints)) {
+			this.excludedCount++;
+			return;
+		}
+		// A track that can't be checked against them could break them
+		if (
+			isUnverifiedByHardConstraints(track, this.analysis.hard_constraints)
+		) {
+			this.unverifiedCount++;
+			return;
+		}
+
+		if (track.features) {
+			this.withFeaturesCount++;
+			const scored = scoreTrack(
+				track,
+				this.analysis,
+				this.weights,
+				this.hiddenGems
+			);
+			this.scoredHeap.push(scored, scored.score);
+		} else {
+			this.popularHeap.push(
+				track,
+				scorePopularityFit(track, this.analysis, this.hiddenGems)
+			);
+		}
+	}
+
+	// Tracks without features only fill in when few tracks have features, so
+	// only a few are kept unless no track in the pool has any
+	candidates(poolHasFeatures: boolean): SegmentCandidates {
+		if (this.excludedCount > 0) {
+			console.log(
+				`Excluded ${this.excludedCount} tracks that break hard constraints`
+			);
+		}
+		if (this.unverifiedCount > 0) {
+			console.log(
+				`Excluded ${this.unverifiedCount} tracks without the features hard constraints need`
+			);
+		}
+		console.log(
+			`${this.withFeaturesCount} out of ${
+				this.trackCount - this.excludedCount - this.unverifiedCount
+			} tracks have audio features`
+		);
+
+		const popular = this.popularHeap.toSortedArray();
+		return {
+			scored: this.scoredHeap.toSortedArray().map(slimTrack),
+			popular: (poolHasFeatures
+				? popular.slice(0, this.maxTracks * 3)
+				: popular
+			).map(slimTrack),
+			withFeaturesCount: this.withFeaturesCount,
+		};
+	}
+}
+
+// Function to apply AI-generated filters to tracks: select from a segment's
+// candidates, subject to the diversity constraints or a duration target
+function filterTracksByAIAnalysis(
+	candidates: SegmentCandidates,
+	analysis: PromptAnalysis,
+	maxTracks: number = 20,
+	weights: FeatureWeights = analysis.feature_weights,
+	constraints: SelectionConstraints = DEFAULT_SELECTION_CONSTRAINTS,
+	excludedTrackIds: Set<string> = new Set(),
+	hiddenGems: HiddenGemsContext | null = null,
+	durationTarget: DurationTarget | null = null
+): {
+	tracks: any[];
+	constraintStats: SelectionConstraintStats;
+	duration: DurationFillStats | null;
+} {
+	console.log(
+		'Starting AI filtering with analysis:',
+		JSON.stringify(analysis, null, 2)
+	);
+	console.log('Scoring weights:', JSON.stringify(weights));
+
+	const { withFeaturesCount } = candidates;
+
+	// If we don't have enough tracks with features, include some without features
+	let candidateTracks = [...candidates.scored];
+	if (withFeaturesCount < maxTracks * 2) {
+		// We need more candidate tracks - include the tracks without features
+		// that best fit the requested popularity
+		console.log(
+			`Not enough tracks with features, including tracks without features in selection pool`
+		);
+		const tracksWithoutFeatures = candidates.popular.map((track) =>
+			scoreTrack(track, analysis, weights, hiddenGems)
+		);
+
+		candidateTracks = [...candidateTracks, ...tracksWithoutFeatures];
+		console.log(
+			`Selection pool now has ${candidateTracks.length} tracks (${candidates.scored.length} with features, ${tracksWithoutFeatures.length} without)`
+		);
+	}
+
+	// Sort by score, highest first
+	const scoredTracks = candidateTracks.sort((a, b) => b.score - a.score);
 
 	console.log(`Scored ${scoredTracks.length} tracks based on available data`);
 
-	// Select top tracks by score
-	const selectedTracks = scoredTracks.slice(0, maxTracks);
+	// Select top tracks by score, subject to the diversity constraints. With a
+	// duration target the tracks are picked to fill that length instead.
+	const {
+		tracks: selectedTracks,
+		stats: constraintStats,
+		duration,
+	} = durationTarget
+		? selectForDuration(
+				scoredTracks,
+				durationTarget,
+				constraints,
+				excludedTrackIds
+		  )
+		: {
+				...applySelectionConstraints(
+					scoredTracks,
+					maxTracks,
+					constraints,
+					excludedTrackIds
+				),
+				duration: null,
+		  };
+	console.log('Selection constraint results:', constraintStats);
+	if (duration) {
+		console.log('Duration target results:', duration);
+	}
 
 	// Display first few and last few selected tracks for debugging
 	if (selectedTracks.length > 0) {
@@ -937,7 +1225,9 @@ function filterTracksByAIAnalysis(
 				let details = '';
 				if (t.scoreDetails) {
 					details = Object.entries(t.scoreDetails)
-						.filter(([_, value]) => Number(value) > 0)
+						.filter(
+							([_, value]) => typeof value === 'number' && value > 0
+						)
 						.map(
 							([key, value]) =>
 								`${key}: ${Number(value).toFixed(1)}`
@@ -967,7 +1257,9 @@ function filterTracksByAIAnalysis(
 					let details = '';
 					if (t.scoreDetails) {
 						details = Object.entries(t.scoreDetails)
-							.filter(([_, value]) => Number(value) > 0)
+							.filter(
+								([_, value]) => typeof value === 'number' && value > 0
+							)
 							.map(
 								([key, value]) =>
 									`${key}: ${Number(value).toFixed(1)}`
@@ -986,154 +1278,15 @@ function filterTracksByAIAnalysis(
 	}
 
 	// Return the selected tracks
-	return selectedTracks;
-}
-
-// Helper function to sample tracks from a playlist based on relevance to the prompt
-function samplePlaylistTracks(
-	tracks: any[],
-	promptAnalysis: any,
-	maxTracks: number = 50
-): any[] {
-	// If we have fewer tracks than the max, return all of them
-	if (tracks.length <= maxTracks) {
-		return tracks;
-	}
-
-	// Extract genres from track artists if available
-	const tracksWithGenres = tracks.map((track) => {
-		// Some tracks have genres in their artists object
-		const genres =
-			track.artists?.reduce((acc: string[], artist: any) => {
-				if (artist.genres && Array.isArray(artist.genres)) {
-					return [...acc, ...artist.genres];
-				}
-				return acc;
-			}, []) || [];
-
-		return {
-			...track,
-			extractedGenres: genres,
-		};
-	});
-
-	// First, try to find tracks that match the requested genres
-	const promptGenres = new Set(
-		promptAnalysis.genres.map((g: string) => g.toLowerCase())
-	);
-
-	// Score tracks by genre match
-	const scoredTracks = tracksWithGenres.map((track) => {
-		let genreScore = 0;
-
-		// Check for genre matches
-		if (track.extractedGenres.length > 0) {
-			track.extractedGenres.forEach((genre: string) => {
-				const genreLower = genre.toLowerCase();
-				if (promptGenres.has(genreLower)) {
-					genreScore += 2; // Direct match
-				} else {
-					// Check for partial matches
-					promptAnalysis.genres.forEach((promptGenre: string) => {
-						if (
-							genreLower.includes(promptGenre.toLowerCase()) ||
-							promptGenre.toLowerCase().includes(genreLower)
-						) {
-							genreScore += 1; // Partial match
-						}
-					});
-				}
-			});
-		}
-
-		// Popularity can be a secondary factor
-		const popularityScore = track.popularity ? track.popularity / 100 : 0;
-
-		return {
-			...track,
-			selectionScore: genreScore + popularityScore * 0.5, // Weight popularity less than genre matches
-		};
-	});
-
-	// Sort by score and take the top tracks
-	const sortedTracks = [...scoredTracks].sort(
-		(a, b) => b.selectionScore - a.selectionScore
-	);
-
-	// Take the top scored tracks plus some random ones for diversity
-	const topTracks = sortedTracks.slice(0, Math.floor(maxTracks * 0.7)); // 70% top tracks
-
-	// For the remaining 30%, sample randomly from the rest
-	const remainingTracks = sortedTracks.slice(Math.floor(maxTracks * 0.7));
-	const randomIndices = new Set();
-	const randomCount = Math.min(
-		maxTracks - topTracks.length,
-		remainingTracks.length
-	);
-
-	while (randomIndices.size < randomCount) {
-		randomIndices.add(Math.floor(Math.random() * remainingTracks.length));
-	}
-
-	const randomTracks = Array.from(randomIndices).map(
-		(i) => remainingTracks[i as number]
-	);
-
-	return [...topTracks, ...randomTracks];
-}
-
-// Function to fetch all pages of a Spotify API endpoint with pagination
-async function fetchAllPages(
-	accessToken: string,
-	initialUrl: string,
-	delay: number = 100
-): Promise<any[]> {
-	let results: any[] = [];
-	let nextUrl: string | null = initialUrl;
-
-	while (nextUrl) {
-		// Add delay between requests to avoid rate limiting
-		if (results.length > 0) {
-			await new Promise((resolve) => setTimeout(resolve, delay));
-		}
-
-		try {
-			const response = await fetch(nextUrl, {
-				headers: {
-					Authorization: `Bearer ${accessToken}`,
-				},
-			});
-
-			if (!response.ok) {
-				console.error(
-					`API error: ${response.status} - ${response.statusText}`
-				);
-				break;
-			}
-
-			const data = await response.json();
-
-			// Add items from this page
-			if (data.items) {
-				results = [...results, ...data.items];
-			}
-
-			// Get next page URL, if any
-			nextUrl = data.next;
-		} catch (error) {
-			console.error('Error fetching paginated data:', error);
-			break;
-		}
-	}
-
-	return results;
+	return { tracks: selectedTracks, constraintStats, duration };
 }
 
 // Function to fetch limited number of items from a Spotify API endpoint
 async function fetchLimitedItems(
 	accessToken: string,
 	url: string,
-	limit: number = 50
+	limit: number = 50,
+	limiter?: ConcurrencyLimiter
 ): Promise<any[]> {
 	try {
 		// Append limit parameter to URL
@@ -1141,11 +1294,7 @@ async function fetchLimitedItems(
 			? `${url}&limit=${limit}`
 			: `${url}?limit=${limit}`;
 
-		const response = await fetch(apiUrl, {
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
-			},
-		});
+		const response = await spotifyFetch(accessToken, apiUrl, { limiter });
 
 		if (!response.ok) {
 			throw new Error(
@@ -1161,63 +1310,58 @@ async function fetchLimitedItems(
 	}
 }
 
-// Fetch user's liked songs
-async function fetchLikedSongs(
+// Stream the user's liked songs page by page
+async function* streamLikedSongs(
 	accessToken: string,
-	config: ProcessingConfig
-): Promise<any[]> {
+	config: ProcessingConfig,
+	limiter?: ConcurrencyLimiter,
+	throwIfCancelled?: () => void
+): AsyncGenerator<any[]> {
 	console.log("Fetching user's liked songs...");
 
-	try {
-		let tracks;
+	if (!config.fetchAllPages) {
+		// Fetch just one page with limited tracks
+		const items = await fetchLimitedItems(
+			accessToken,
+			'https://api.spotify.com/v1/me/tracks',
+			50,
+			limiter
+		);
+		yield items.map((item) => item.track).filter((track) => track);
+		return;
+	}
 
-		if (config.fetchAllPages) {
-			// Fetch all pages of liked songs
-			const items = await fetchAllPages(
-				accessToken,
-				'https://api.spotify.com/v1/me/tracks?limit=50',
-				config.requestDelay
-			);
-			tracks = items.map((item) => item.track);
-		} else {
-			// Fetch just one page with limited tracks
-			const items = await fetchLimitedItems(
-				accessToken,
-				'https://api.spotify.com/v1/me/tracks',
-				50
-			);
-			tracks = items.map((item) => item.track);
-		}
-
-		console.log(`Retrieved ${tracks.length} liked songs`);
-		return tracks;
-	} catch (error) {
-		console.error('Error fetching liked songs:', error);
-		return [];
+	for await (const items of streamPages(
+		accessToken,
+		'https://api.spotify.com/v1/me/tracks?limit=50',
+		{ limiter, throwIfCancelled }
+	)) {
+		yield items.map((item) => item.track).filter((track) => track);
 	}
 }
 
 // Fetch user's top tracks
 async function fetchTopTracks(
 	accessToken: string,
-	config: ProcessingConfig
+	config: ProcessingConfig,
+	limiter?: ConcurrencyLimiter
 ): Promise<any[]> {
 	console.log("Fetching user's top tracks...");
 
 	try {
 		// Get top tracks with multiple time ranges for better variety
 		const timeRanges = ['short_term', 'medium_term', 'long_term'];
-		let allTopTracks: any[] = [];
-
-		for (const timeRange of timeRanges) {
-			const tracks = await fetchLimitedItems(
-				accessToken,
-				`https://api.spotify.com/v1/me/top/tracks?time_range=${timeRange}`,
-				50
-			);
-
-			allTopTracks = [...allTopTracks, ...tracks];
-		}
+		const tracksByRange = await Promise.all(
+			timeRanges.map((timeRange) =>
+				fetchLimitedItems(
+					accessToken,
+					`https://api.spotify.com/v1/me/top/tracks?time_range=${timeRange}`,
+					50,
+					limiter
+				)
+			)
+		);
+		const allTopTracks = tracksByRange.flat();
 
 		// Remove duplicates
 		const uniqueTracks = Array.from(
@@ -1232,110 +1376,410 @@ async function fetchTopTracks(
 	}
 }
 
-// Fetch tracks from a specific playlist
-async function fetchPlaylistTracks(
+// Larger playlists would come close to MongoDB's document size limit
+const MAX_CACHED_PLAYLIST_TRACKS = 5000;
+
+// Tracks read from a playlist, as cached per snapshot. Entries cached as a
+// bare array hold the whole playlist.
+interface CachedPlaylistTracks {
+	tracks: any[];
+	complete: boolean; // Whether every track was read, not just the first few
+}
+
+// Tracks to read from each playlist in a mode, 0 for all of them
+function playlistTrackLimit(config: ProcessingConfig): number {
+	if (!config.fetchAllPages && config.maxTracksPerPlaylist === 0) {
+		return 100;
+	}
+	return config.maxTracksPerPlaylist;
+}
+
+// Stream the tracks of a playlist page by page, stopping once the limit is
+// reached. With a cache key, the tracks are cached once the stream ends; a
+// stream the consumer stops early isn't cached.
+async function* streamPlaylistTracks(
 	accessToken: string,
 	playlistId: string,
-	config: ProcessingConfig
-): Promise<any[]> {
+	limit: number,
+	limiter?: ConcurrencyLimiter,
+	cacheKey?: string | null,
+	throwIfCancelled?: () => void
+): AsyncGenerator<any[]> {
+	const pageSize = limit > 0 ? Math.min(limit, 100) : 100;
+	// Slim copies for the cache, dropped if the playlist is too big to cache
+	let cacheable: any[] | null = cacheKey ? [] : null;
+	let itemCount = 0;
+	for await (const items of streamPages(
+		accessToken,
+		`https://api.spotify.com/v1/playlists/${playlistId}/tracks?limit=${pageSize}`,
+		{ limiter, throwIfCancelled, maxItems: limit || undefined }
+	)) {
+		itemCount += items.length;
+		// Filter out null tracks
+		const tracks = items.map((item) => item.track).filter((track) => track);
+		if (cacheable) {
+			cacheable.push(...tracks.map(slimTrack));
+			if (cacheable.length > MAX_CACHED_PLAYLIST_TRACKS) {
+				cacheable = null;
+			}
+		}
+		yield tracks;
+	}
+
+	if (cacheKey && cacheable) {
+		const entry: CachedPlaylistTracks = {
+			tracks: cacheable,
+			complete: limit === 0 || itemCount < limit,
+		};
+		await writeCatalog('playlist_tracks', [{ id: cacheKey, data: entry }]);
+	}
+}
+
+// Open a playlist's tracks, from the cache when it holds the current
+// snapshot with enough of them
+async function openPlaylistTracks(
+	accessToken: string,
+	playlistId: string,
+	config: ProcessingConfig,
+	limiter?: ConcurrencyLimiter,
+	snapshotId?: string,
+	throwIfCancelled?: () => void
+): Promise<{ pages: AsyncIterable<any[]> | any[][]; fromCache: boolean }> {
 	console.log(`Fetching tracks from playlist: ${playlistId}`);
 
-	try {
-		let tracks;
+	const limit = playlistTrackLimit(config);
+	const cacheKey = snapshotId
+		? playlistTracksCacheKey(playlistId, snapshotId)
+		: null;
+	const cachedData = cacheKey
+		? (await readCatalog('playlist_tracks', [cacheKey])).get(cacheKey)
+		: null;
+	const cached: CachedPlaylistTracks | null = Array.isArray(cachedData)
+		? { tracks: cachedData, complete: true }
+		: cachedData || null;
 
-		if (config.fetchAllPages) {
-			// Fetch all pages
-			const items = await fetchAllPages(
-				accessToken,
-				`https://api.spotify.com/v1/playlists/${playlistId}/tracks?limit=100`,
-				config.requestDelay
-			);
-			tracks = items.map((item) => item.track).filter((track) => track); // Filter out null tracks
-		} else {
-			// Fetch limited tracks
-			const limit =
-				config.maxTracksPerPlaylist === 0
-					? 100
-					: config.maxTracksPerPlaylist;
-			const items = await fetchLimitedItems(
-				accessToken,
-				`https://api.spotify.com/v1/playlists/${playlistId}/tracks`,
-				limit
-			);
-			tracks = items.map((item) => item.track).filter((track) => track);
-		}
+	if (
+		cached &&
+		(cached.complete || (limit > 0 && cached.tracks.length >= limit))
+	) {
+		return { pages: [cached.tracks], fromCache: true };
+	}
+	return {
+		pages: streamPlaylistTracks(
+			accessToken,
+			playlistId,
+			limit,
+			limiter,
+			cacheKey,
+			throwIfCancelled
+		),
+		fromCache: false,
+	};
+}
 
-		// Limit the number of tracks if specified
-		if (
-			config.maxTracksPerPlaylist > 0 &&
-			tracks.length > config.maxTracksPerPlaylist
-		) {
-			tracks = tracks.slice(0, config.maxTracksPerPlaylist);
+// Relevance of one playlist to the prompt, highest first when ranked
+interface PlaylistRelevance {
+	id: string;
+	name: string;
+	score: number; // textScore + featureScore, 0-20
+	textScore: number; // 0-10
+	featureScore: number | null; // 0-10, null without audio features
+	matchedTerms: string[];
+}
+
+// Tracks sampled from each playlist for its feature centroid
+const PLAYLIST_SAMPLE_SIZE = 10;
+
+// How well a playlist's name and description mention the prompt's genres
+// and moods (0-10)
+function scorePlaylistText(
+	playlist: { name?: string; description?: string },
+	analysis: PromptAnalysis
+): { score: number; matchedTerms: string[] } {
+	const text = `${playlist.name || ''} ${
+		playlist.description || ''
+	}`.toLowerCase();
+	const matchedTerms: string[] = [];
+	let score = 0;
+
+	analysis.genres.forEach((genre) => {
+		if (containsKeyword(text, genre.toLowerCase())) {
+			matchedTerms.push(genre);
+			score += 3;
 		}
+	});
+	analysis.moods.forEach((mood) => {
+		if (containsKeyword(text, mood.toLowerCase())) {
+			matchedTerms.push(mood);
+			score += 2;
+		}
+	});
 
-		console.log(
-			`Retrieved ${tracks.length} tracks from playlist ${playlistId}`
-		);
-		return tracks;
-	} catch (error) {
-		console.error(
-			`Error fetching tracks from playlist ${playlistId}:`,
-			error
+	return { score: Math.min(10, score), matchedTerms };
+}
+
+// How close the average audio features of a track sample are to the
+// prompt's target ranges (0-10), using the analysis weights
+function scoreFeatureCentroid(
+	tracks: any[],
+	analysis: PromptAnalysis
+): number | null {
+	const withFeatures = tracks.filter((track) => track.features);
+	if (withFeatures.length === 0) {
+		return null;
+	}
+
+	let weightedScore = 0;
+	let totalWeight = 0;
+	for (const feature of AUDIO_FEATURES) {
+		const values = withFeatures
+			.map((track) => track.features[feature])
+			.filter((value) => typeof value === 'number');
+		if (values.length === 0) continue;
+
+		const centroid =
+			values.reduce((sum, value) => sum + value, 0) / values.length;
+		const { score } = scoreFeatureInRange(
+			centroid,
+			analysis[`${feature}_range`],
+			RANGE_FALLOFF[feature]
 		);
-		return [];
+		weightedScore += score * analysis.feature_weights[feature];
+		totalWeight += analysis.feature_weights[feature];
 	}
+
+	return totalWeight > 0 ? weightedScore / totalWeight : null;
+}
+
+// Rank playlists against the prompt by name and description, plus the
+// average audio features of the first few tracks of each. Ties keep the
+// given order.
+async function rankPlaylistsByRelevance(
+	accessToken: string,
+	playlists: Array<{ id: string; name?: string; description?: string }>,
+	analysis: PromptAnalysis,
+	limiter?: ConcurrencyLimiter
+): Promise<PlaylistRelevance[]> {
+	const samples = await Promise.all(
+		playlists.map((playlist) =>
+			fetchLimitedItems(
+				accessToken,
+				`https://api.spotify.com/v1/playlists/${playlist.id}/tracks`,
+				PLAYLIST_SAMPLE_SIZE,
+				limiter
+			).then((items) =>
+				items.map((item) => item.track).filter((track) => track?.id)
+			)
+		)
+	);
+
+	// One feature lookup for all samples, mostly served from the cache
+	const { tracks: sampledTracks } = await fetchAudioFeaturesForTracks(
+		accessToken,
+		samples.flat(),
+		() => {}
+	);
+	const featuresById = new Map(
+		sampledTracks.map((track) => [track.id, track.features])
+	);
+
+	const ranked = playlists.map((playlist, index) => {
+		const text = scorePlaylistText(playlist, analysis);
+		const featureScore = scoreFeatureCentroid(
+			samples[index].map((track) => ({
+				features: featuresById.get(track.id) || null,
+			})),
+			analysis
+		);
+		return {
+			id: playlist.id,
+			name: playlist.name || '',
+			score: text.score + (featureScore ?? 0),
+			textScore: text.score,
+			featureScore,
+			matchedTerms: text.matchedTerms,
+		};
+	});
+
+	return ranked.sort((a, b) => b.score - a.score);
 }
 
-// Fetch tracks from multiple playlists
-async function fetchSelectedPlaylistTracks(
+// Stream tracks from multiple playlists into addTracks as their pages arrive
+async function collectSelectedPlaylistTracks(
 	accessToken: string,
 	playlistIds: string[],
 	config: ProcessingConfig,
-	progressCallback?: (progress: number) => void
-): Promise<any[]> {
+	promptAnalysis: PromptAnalysis,
+	addTracks: (tracks: any[]) => void,
+	limiter?: ConcurrencyLimiter,
+	throwIfCancelled?: () => void,
+	progressCallback?: (finished: number, total: number) => void
+): Promise<{ cache: CacheLookupStats }> {
 	console.log(`Fetching tracks from ${playlistIds.length} playlists...`);
 
-	const allTracks: any[] = [];
-	const limitedPlaylistIds = playlistIds.slice(0, config.maxPlaylists);
+	// The user's playlists carry each one's name and current snapshot ID
+	const userPlaylists = new Map(
+		(await fetchUserPlaylists(accessToken)).map((playlist) => [
+			playlist.id,
+			playlist,
+		])
+	);
 
-	for (let i = 0; i < limitedPlaylistIds.length; i++) {
-		const playlistId = limitedPlaylistIds[i];
-		const tracks = await fetchPlaylistTracks(
+	// Keep the most relevant playlists when there are more than the mode allows
+	let orderedPlaylistIds = playlistIds;
+	if (
+		config.prioritizeByRelevance &&
+		playlistIds.length > config.maxPlaylists
+	) {
+		const ranked = await rankPlaylistsByRelevance(
 			accessToken,
-			playlistId,
-			config
+			playlistIds.map((id) => userPlaylists.get(id) || { id }),
+			promptAnalysis,
+			limiter
 		);
-		allTracks.push(...tracks);
+		orderedPlaylistIds = ranked.map((playlist) => playlist.id);
+		console.log(
+			'Playlists ranked by relevance:',
+			ranked.map(
+				(playlist) => `${playlist.name} (${playlist.score.toFixed(1)})`
+			)
+		);
+	}
 
-		// Report progress if callback provided
-		if (progressCallback) {
-			const progress = Math.round(
-				((i + 1) / limitedPlaylistIds.length) * 100
+	const limitedPlaylistIds = orderedPlaylistIds.slice(0, config.maxPlaylists);
+	let finishedPlaylists = 0;
+
+	// Playlists are streamed in parallel; the limiter bounds the requests
+	const fromCache = await Promise.all(
+		limitedPlaylistIds.map(async (playlistId) => {
+			const playlist = await openPlaylistTracks(
+				accessToken,
+				playlistId,
+				config,
+				limiter,
+				userPlaylists.get(playlistId)?.snapshot_id,
+				throwIfCancelled
 			);
-			progressCallback(progress);
-		}
-	}
 
-	// Remove duplicate tracks
-	const uniqueTracks = Array.from(
-		new Map(allTracks.map((track) => [track.id, track])).values()
-	);
+			// The stream ends at the mode's per-playlist limit, but its last
+			// page and a cached list can go past it. Reading to the end lets
+			// the stream cache what it read.
+			const limit = playlistTrackLimit(config);
+			let count = 0;
+			for await (const tracks of playlist.pages) {
+				const kept = limit > 0 ? tracks.slice(0, limit - count) : tracks;
+				addTracks(kept);
+				count += kept.length;
+			}
 
-	console.log(
-		`Retrieved ${uniqueTracks.length} unique tracks from ${limitedPlaylistIds.length} playlists`
+			console.log(
+				`Retrieved ${count} tracks from playlist ${playlistId}${
+					playlist.fromCache ? ' (cached)' : ''
+				}`
+			);
+
+			// Report progress as each playlist finishes
+			finishedPlaylists++;
+			if (progressCallback) {
+				progressCallback(finishedPlaylists, limitedPlaylistIds.length);
+			}
+			return playlist.fromCache;
+		})
 	);
-	return uniqueTracks;
+	const cachedPlaylists = fromCache.filter(Boolean).length;
+
+	console.log(`Fetched tracks from ${limitedPlaylistIds.length} playlists`);
+	return {
+		cache: toCacheLookupStats(
+			cachedPlaylists,
+			fromCache.length - cachedPlaylists
+		),
+	};
+}
+
+// Fetch recommended tracks seeded from the user's top tracks and the prompt analysis
+async function fetchRecommendedTracks(
+	accessToken: string,
+	promptAnalysis: PromptAnalysis,
+	matchedGenres: string[],
+	config: ProcessingConfig,
+	topTracks: any[] = [],
+	limiter?: ConcurrencyLimiter
+): Promise<any[]> {
+	console.log('Fetching recommended tracks for discovery...');
+
+	try {
+		// Reuse already collected top tracks as seeds, otherwise fetch a few
+		let seedSource = topTracks;
+		if (seedSource.length === 0) {
+			seedSource = await fetchLimitedItems(
+				accessToken,
+				'https://api.spotify.com/v1/me/top/tracks?time_range=short_term',
+				10,
+				limiter
+			);
+		}
+
+		const seedTracks = seedSource
+			.map((track) => track?.id)
+			.filter((id): id is string => Boolean(id));
+
+		// Rank artists by how often they appear across the user's top tracks
+		const artistCounts = new Map<string, number>();
+		seedSource.forEach((track) => {
+			track?.artists?.forEach((artist: any) => {
+				if (artist?.id) {
+					artistCounts.set(
+						artist.id,
+						(artistCounts.get(artist.id) || 0) + 1
+					);
+				}
+			});
+		});
+		const seedArtists = Array.from(artistCounts.entries())
+			.sort((a, b) => b[1] - a[1])
+			.map(([artistId]) => artistId);
+
+		const tracks = await getRecommendations(
+			accessToken,
+			matchedGenres,
+			promptAnalysis,
+			Math.min(100, config.maxRecommendations),
+			seedTracks,
+			seedArtists
+		);
+
+		console.log(`Retrieved ${tracks.length} recommended tracks`);
+		return tracks;
+	} catch (error) {
+		console.error('Error fetching recommended tracks:', error);
+		return [];
+	}
 }
 
-// Master function to collect all tracks from specified sources
+// Library sources first, so a track the user already has keeps its library
+// source when it also comes up as a recommendation
+const SOURCE_PRIORITY = ['liked_songs', 'top_tracks', 'playlist', 'discovery'];
+
+// Master function to collect all tracks from specified sources. Pages are
+// slimmed and added to a bounded sample per source as they arrive, so memory
+// stays flat however large the library is.
 async function collectTracks(
 	accessToken: string,
 	sources: PlaylistSources,
 	processingMode: ProcessingMode,
+	promptAnalysis: PromptAnalysis,
+	matchedGenres: string[],
+	samplingSeed: string,
+	throwIfCancelled?: () => void,
 	progressCallback?: (progress: ProcessingProgress) => void
-): Promise<any[]> {
+): Promise<{
+	tracks: any[];
+	sampling: PoolSamplingStats;
+	playlistCache: CacheLookupStats;
+}> {
 	const config = PROCESSING_CONFIGS[processingMode];
-	const allTracks: any[] = [];
+	const sourceCounts: Record<string, number> = {};
 
 	// Progress tracking
 	let currentProgress: ProcessingProgress = {
@@ -1343,6 +1787,7 @@ async function collectTracks(
 		progress: 0,
 		message: 'Starting track collection...',
 		remainingTimeEstimate: 60, // Initial estimate
+		sources: {},
 	};
 
 	// Function to update and report progress
@@ -1359,6 +1804,7 @@ async function collectTracks(
 				5,
 				currentProgress.remainingTimeEstimate - 5
 			),
+			sources: { ...sourceCounts },
 		};
 
 		if (progressCallback) {
@@ -1366,196 +1812,445 @@ async function collectTracks(
 		}
 	};
 
-	// 1. Fetch liked songs if selected
-	if (sources.useLikedSongs) {
-		updateProgress('collecting', 10, 'Fetching your liked songs...');
-		const likedSongs = await fetchLikedSongs(accessToken, config);
-		allTracks.push(...likedSongs);
-	}
-
-	// 2. Fetch top tracks if selected
-	if (sources.useTopTracks) {
-		updateProgress('collecting', 30, 'Fetching your top tracks...');
-		const topTracks = await fetchTopTracks(accessToken, config);
-		allTracks.push(...topTracks);
-	}
+	// Each source keeps at most the target pool size, since sampling can't
+	// keep more than that from any one source
+	const samples = new Map<string, SourceSample<any>>();
+
+	// Tag every track with the source it came from so the response can tell
+	// the user's own library apart from discovery tracks
+	const addTracks = (tracks: any[], source: string) => {
+		let sample = samples.get(source);
+		if (!sample) {
+			sample = new SourceSample(
+				samplingSeed,
+				config.targetPoolSize > 0 ? config.targetPoolSize : Infinity
+			);
+			samples.set(source, sample);
+		}
+		for (const track of tracks) {
+			if (track?.id) {
+				sample.add({ ...slimTrack(track), source });
+			}
+		}
+	};
 
-	// 3. Fetch playlist tracks if selected
-	if (sources.playlists && sources.playlists.length > 0) {
+	// Sources are fetched in parallel. Each one reports its count as soon as it
+	// finishes, and progress moves with the share of finished work.
+	const limiter = new ConcurrencyLimiter(config.maxConcurrentRequests);
+	const playlistCount = Math.min(
+		sources.playlists?.length || 0,
+		config.maxPlaylists
+	);
+	const totalWork =
+		(sources.useLikedSongs ? 1 : 0) +
+		(sources.useTopTracks ? 1 : 0) +
+		(sources.useRecommendations ? 1 : 0) +
+		playlistCount;
+	let finishedWork = 0;
+
+	const reportWork = (units: number, message: string) => {
+		finishedWork += units;
 		updateProgress(
 			'collecting',
-			40,
-			'Fetching tracks from your playlists...'
+			10 + Math.floor((finishedWork / Math.max(1, totalWork)) * 75),
+			message
 		);
+	};
 
-		const playlistTracksProgress = (progress: number) => {
-			updateProgress(
-				'collecting',
-				40 + Math.floor(progress * 0.4), // 40-80% of total progress
-				`Fetching playlist tracks: ${progress}% complete`
-			);
-		};
-
-		const playlistTracks = await fetchSelectedPlaylistTracks(
-			accessToken,
-			sources.playlists,
-			config,
-			playlistTracksProgress
+	const reportSource = (source: string) => {
+		const count = samples.get(source)?.ids.size || 0;
+		sourceCounts[source] = count;
+		reportWork(
+			source === 'playlist' ? 0 : 1,
+			`Collected ${count} tracks from ${source.replace('_', ' ')}`
 		);
+	};
 
-		allTracks.push(...playlistTracks);
-	}
-
-	// 4. Remove duplicates
+	updateProgress('collecting', 10, 'Fetching tracks from your sources...');
+
+	// 1. Liked songs
+	const likedSongsTask = sources.useLikedSongs
+		? (async () => {
+				for await (const tracks of streamLikedSongs(
+					accessToken,
+					config,
+					limiter,
+					throwIfCancelled
+				)) {
+					addTracks(tracks, 'liked_songs');
+				}
+				reportSource('liked_songs');
+		  })()
+		: Promise.resolve();
+
+	// 2. Top tracks
+	const topTracksTask = sources.useTopTracks
+		? fetchTopTracks(accessToken, config, limiter).then((tracks) => {
+				addTracks(tracks, 'top_tracks');
+				reportSource('top_tracks');
+				return tracks;
+		  })
+		: Promise.resolve([]);
+
+	// 3. Playlist tracks, reporting each playlist as it finishes
+	let playlistCache = toCacheLookupStats(0, 0);
+	const playlistTracksTask =
+		sources.playlists && sources.playlists.length > 0
+			? collectSelectedPlaylistTracks(
+					accessToken,
+					sources.playlists,
+					config,
+					promptAnalysis,
+					(tracks) => addTracks(tracks, 'playlist'),
+					limiter,
+					throwIfCancelled,
+					(finished, total) =>
+						reportWork(1, `Fetched ${finished} of ${total} playlists`)
+			  ).then((result) => {
+					playlistCache = result.cache;
+					reportSource('playlist');
+			  })
+			: Promise.resolve();
+
+	// 4. Recommendations for discovery, seeded from the top tracks if selected
+	const recommendedTracksTask = sources.useRecommendations
+		? topTracksTask
+				.then((topTracks) =>
+					fetchRecommendedTracks(
+						accessToken,
+						promptAnalysis,
+						matchedGenres,
+						config,
+						topTracks,
+						limiter
+					)
+				)
+				.then((tracks) => {
+					addTracks(tracks, 'discovery');
+					reportSource('discovery');
+				})
+		: Promise.resolve();
+
+	await Promise.all([
+		likedSongsTask,
+		topTracksTask,
+		playlistTracksTask,
+		recommendedTracksTask,
+	]);
+	throwIfCancelled?.();
+
+	// 5. Remove duplicates across sources in priority order, so tracks already
+	// in the user's library are never tagged as discovery. Each source
+	// remembers every ID it saw, including tracks left out of its sample.
 	updateProgress('processing', 85, 'Removing duplicate tracks...');
-	const uniqueTracks = Array.from(
-		new Map(allTracks.map((track) => [track.id, track])).values()
-	);
+	const seenIds = new Set<string>();
+	const tracksBySource = new Map<string, any[]>();
+
+	const sampling: PoolSamplingStats = {
+		targetPoolSize: config.targetPoolSize,
+		sampled: false,
+		seed: samplingSeed,
+		sources: {},
+	};
+	let uniqueCount = 0;
 
-	// 5. Limit to target pool size if necessary
-	let resultTracks = uniqueTracks;
-	if (
-		config.targetPoolSize > 0 &&
-		uniqueTracks.length > config.targetPoolSize
-	) {
-		updateProgress('processing', 90, 'Sampling tracks to optimal size...');
-		// When implementing sampling, this is where we'd add the code
-		resultTracks = uniqueTracks.slice(0, config.targetPoolSize);
-	}
+	SOURCE_PRIORITY.forEach((source) => {
+		const sample = samples.get(source);
+		if (!sample) return;
+
+		let collected = 0;
+		sample.ids.forEach((id) => {
+			if (!seenIds.has(id)) collected++;
+		});
+		const sourceTracks = sample.tracks.filter(
+			(track) => !seenIds.has(track.id)
+		);
+		sample.ids.forEach((id) => seenIds.add(id));
+
+		if (collected > 0) {
+			sampling.sources[source] = {
+				collected,
+				kept: sourceTracks.length,
+			};
+			tracksBySource.set(source, sourceTracks);
+			uniqueCount += collected;
+		}
+	});
+
+	// The pool is trimmed to its target size once artist genres are known
+	const resultTracks = Array.from(tracksBySource.values()).flat();
 
 	updateProgress('complete', 100, 'Track collection complete');
 	console.log(
-		`Collection complete. ${resultTracks.length} unique tracks collected.`
+		`Collection complete. ${resultTracks.length} unique tracks kept out of ${uniqueCount} collected.`
 	);
 
-	return resultTracks;
+	return { tracks: resultTracks, sampling, playlistCache };
 }
 
-// First, let's add a new object to store progress for each playlist
-
-// Progress tracking storage
-const playlistProgressMap = new Map<
-	string,
-	{
-		stage: string;
-		progress: number;
-		message: string;
-		remainingTimeEstimate: number;
-		processingMode: string;
-		startTime: number;
-	}
->();
-
-// Let's add the progress endpoint
-router.get(
-	'/api/ai/generate-playlist/progress',
-	isAuthenticated,
-	async (req, res) => {
-		try {
-			const { playlistId } = req.query;
+// Look up a generation job, making sure it belongs to the requesting user
+async function findUserJob(
+	req: Request,
+	res: Response
+): Promise<IGenerationJob | null> {
+	const job = await getGenerationJob(req.params.jobId);
 
-			if (!playlistId) {
-				return res
-					.status(400)
-					.json({ error: 'Missing playlistId parameter' });
-			}
+	if (!job) {
+		res.status(404).json({ message: 'Generation job not found' });
+		return null;
+	}
 
-			// Get progress for the requested playlist
-			const progress = playlistProgressMap.get(playlistId as string);
-
-			if (!progress) {
-				// If no progress found, return a default "initializing" state
-				return res.json({
-					progress: {
-						stage: 'initializing',
-						progress: 5,
-						message: 'Initializing playlist generation...',
-						remainingTimeEstimate: 60,
-					},
-				});
-			}
+	if (job.spotifyUserId !== (req as any).userId) {
+		res.status(403).json({ message: 'Not allowed to access this job' });
+		return null;
+	}
 
-			// Update the remaining time estimate based on elapsed time
-			const elapsedSeconds = (Date.now() - progress.startTime) / 1000;
-			const totalEstimate = getEstimatedTimeForMode(
-				progress.processingMode
-			);
-			let remainingEstimate = Math.max(0, totalEstimate - elapsedSeconds);
+	return job;
+}
 
-			// Don't let the estimate drop too quickly at the beginning
-			if (progress.progress < 20) {
-				remainingEstimate = Math.max(
-					remainingEstimate,
-					totalEstimate * 0.8
-				);
-			}
+// Server-Sent Events stream with every progress update of a generation job
+router.get('/jobs/:jobId/events', async (req: Request, res: Response) => {
+	const { jobId } = req.params;
+	const progressJob = getProgressJob(jobId);
 
-			// Return the current progress
-			return res.json({
-				progress: {
-					...progress,
-					remainingTimeEstimate: remainingEstimate,
-				},
+	// Jobs that finished a while ago are only in the database
+	if (!progressJob) {
+		try {
+			const job = await findUserJob(req, res);
+			if (!job) return;
+
+			res.writeHead(200, {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
 			});
-		} catch (error) {
-			console.error(
-				'Error fetching playlist generation progress:',
-				error
-			);
-			return res.status(500).json({ error: 'Failed to get progress' });
+			if (job.status === 'succeeded') {
+				res.write(`event: result\n`);
+				res.write(`data: ${JSON.stringify(job.result)}\n\n`);
+			} else {
+				res.write(`event: error\n`);
+				res.write(
+					`data: ${JSON.stringify({
+						message: job.error || `Generation job ${job.status}`,
+					})}\n\n`
+				);
+			}
+			return res.end();
+		} catch (error: any) {
+			console.error('Error loading generation job:', error.message);
+			return res
+				.status(500)
+				.json({ message: 'Failed to load generation job' });
 		}
 	}
-);
 
-// Helper function to estimate time based on processing mode
-function getEstimatedTimeForMode(mode: string): number {
-	switch (mode) {
-		case 'quick':
-			return 30;
-		case 'standard':
-			return 60;
-		case 'comprehensive':
-			return 120;
-		case 'complete':
-			return 300;
-		default:
-			return 60;
+	if (progressJob.userId !== (req as any).userId) {
+		return res
+			.status(403)
+			.json({ message: 'Not allowed to access this job' });
 	}
-}
 
-// Helper function to update progress during generation
-function updatePlaylistProgress(
-	playlistId: string,
-	stage: string,
-	progress: number,
-	message: string,
-	processingMode: string = 'standard'
-) {
-	// Get the existing progress or create a new one
-	const existing = playlistProgressMap.get(playlistId) || {
-		stage: 'initializing',
-		progress: 0,
-		message: 'Starting playlist generation...',
-		remainingTimeEstimate: getEstimatedTimeForMode(processingMode),
-		processingMode,
-		startTime: Date.now(),
+	res.writeHead(200, {
+		'Content-Type': 'text/event-stream',
+		'Cache-Control': 'no-cache',
+		Connection: 'keep-alive',
+		'X-Accel-Buffering': 'no',
+	});
+	res.flushHeaders();
+
+	// Keep proxies from closing an idle connection
+	const heartbeat = setInterval(() => {
+		res.write(': heartbeat\n\n');
+	}, 15000);
+
+	let unsubscribe = () => {};
+	const close = () => {
+		clearInterval(heartbeat);
+		unsubscribe();
+		res.end();
 	};
 
-	// Update the progress
-	playlistProgressMap.set(playlistId, {
-		...existing,
-		stage,
-		progress,
-		message,
-		processingMode,
+	unsubscribe = subscribeToJob(jobId, (event) => {
+		res.write(`event: ${event.type}\n`);
+		res.write(`data: ${JSON.stringify(event.data)}\n\n`);
+
+		if (event.type === 'result' || event.type === 'error') {
+			close();
+		}
 	});
 
-	console.log(
-		`Updated progress for playlist ${playlistId}: ${stage} - ${progress}%`
-	);
-}
+	req.on('close', close);
+});
+
+// Get the state of a generation job
+router.get('/jobs/:jobId', async (req: Request, res: Response) => {
+	try {
+		const job = await findUserJob(req, res);
+		if (!job) return;
+
+		const liveProgress = getProgressJob(job.jobId)?.latest;
+
+		return res.json({
+			jobId: job.jobId,
+			status: job.status,
+			currentStep: job.currentStep || null,
+			completedSteps: GENERATION_STEPS.filter(
+				(step) => job.checkpoints && job.checkpoints[step]
+			),
+			progress: liveProgress || job.progress,
+			request: job.request,
+			result: job.status === 'succeeded' ? job.result : null,
+			error: job.error || null,
+			attempts: job.attempts,
+			createdAt: job.createdAt,
+			startedAt: job.startedAt || null,
+			finishedAt: job.finishedAt || null,
+		});
+	} catch (error: any) {
+		console.error('Error getting generation job:', error.message);
+		return res.status(500).json({
+			message: 'Failed to get generation job',
+			error: error.message,
+		});
+	}
+});
+
+// Cancel a queued or running generation job
+router.delete('/jobs/:jobId', async (req: Request, res: Response) => {
+	try {
+		const job = await findUserJob(req, res);
+		if (!job) return;
+
+		const cancelled = await cancelGenerationJob(job.jobId);
+		if (!cancelled) {
+			return res.status(409).json({
+				message: `Generation job already ${job.status}`,
+				status: job.status,
+			});
+		}
+
+		return res.json({ jobId: job.jobId, status: 'cancelled' });
+	} catch (error: any) {
+		console.error('Error cancelling generation job:', error.message);
+		return res.status(500).json({
+			message: 'Failed to cancel generation job',
+			error: error.message,
+		});
+	}
+});
+
+// Resume a failed or cancelled job from its last completed step
+router.post('/jobs/:jobId/resume', async (req: Request, res: Response) => {
+	try {
+		const job = await findUserJob(req, res);
+		if (!job) return;
+
+		const resumed = await resumeGenerationJob(
+			job.jobId,
+			(req as any).accessToken,
+			runGenerationPipeline
+		);
+		if (!resumed) {
+			return res.status(409).json({
+				message: `Generation job can't be resumed while ${job.status}`,
+				status: job.status,
+			});
+		}
+
+		return res.status(202).json({
+			jobId: job.jobId,
+			status: 'queued',
+			completedSteps: GENERATION_STEPS.filter(
+				(step) => resumed.checkpoints && resumed.checkpoints[step]
+			),
+		});
+	} catch (error: any) {
+		console.error('Error resuming generation job:', error.message);
+		return res.status(500).json({
+			message: 'Failed to resume generation job',
+			error: error.message,
+		});
+	}
+});
+
+// Create the Spotify playlist from a reviewed draft. The approved track IDs
+// may come from the draft or from the candidates kept for its segments.
+router.post('/jobs/:jobId/commit', async (req: Request, res: Response) => {
+	try {
+		const job = await findUserJob(req, res);
+		if (!job) return;
+
+		const { trackIds, name, description } = req.body;
+
+		if (!Array.isArray(trackIds) || trackIds.length === 0) {
+			return res
+				.status(400)
+				.json({ message: 'At least one approved track is required' });
+		}
+
+		if (job.status !== 'succeeded' || !job.request.draft) {
+			return res.status(409).json({
+				message: 'Only finished drafts can be committed',
+				status: job.status,
+			});
+		}
+
+		// Draft tracks take precedence over the other segment candidates
+		const draftSelection = job.checkpoints?.select?.data || {};
+		const segmentCandidates: SegmentCandidates[] =
+			job.checkpoints?.features?.data?.candidates || [];
+		const candidates = new Map<string, any>();
+		for (const track of [
+			...segmentCandidates.flatMap((segment) => [
+				...segment.popular,
+				...segment.scored,
+			]),
+			...(draftSelection.tracks || []),
+		]) {
+			candidates.set(track.id, track);
+		}
+
+		const unknownIds = trackIds.filter((id: string) => !candidates.has(id));
+		if (unknownIds.length > 0) {
+			return res.status(400).json({
+				message: 'Some tracks are not part of this draft',
+				trackIds: unknownIds,
+			});
+		}
+
+		const approvedTracks = Array.from(new Set<string>(trackIds)).map(
+			(id) => candidates.get(id)
+		);
+
+		const committed = await commitDraftJob(
+			job.jobId,
+			(req as any).accessToken,
+			{ ...draftSelection, tracks: approvedTracks },
+			{ name, description },
+			runGenerationPipeline
+		);
+		if (!committed) {
+			return res.status(409).json({
+				message: 'Draft is already being committed',
+				status: job.status,
+			});
+		}
 
-// First find and update the generate-playlist route to initialize tracking
+		return res.status(202).json({
+			jobId: job.jobId,
+			status: 'queued',
+			tracksApproved: approvedTracks.length,
+		});
+	} catch (error: any) {
+		console.error('Error committing draft playlist:', error.message);
+		return res.status(500).json({
+			message: 'Failed to commit draft playlist',
+			error: error.message,
+		});
+	}
+});
+
+// Queue a playlist generation job. Progress and the final result are
+// delivered through the job's event stream.
 router.post('/generate-playlist', async (req: Request, res: Response) => {
 	try {
 		const {
@@ -1568,10 +2263,70 @@ router.post('/generate-playlist', async (req: Request, res: Response) => {
 				useRecommendations: true,
 				playlists: [],
 			},
-			processingMode = 'standard' as ProcessingMode,
-			targetTrackCount = 20,
+			draft = false,
 		} = req.body;
 
+		const parsedSize = generationSizeSchema.safeParse({
+			processingMode: req.body.processingMode ?? undefined,
+			targetTrackCount: req.body.targetTrackCount ?? undefined,
+		});
+		if (!parsedSize.success) {
+			return res.status(400).json({
+				message: 'Invalid processing mode or track count',
+				errors: parsedSize.error.issues.map(
+					(issue) => `${issue.path.join('.')}: ${issue.message}`
+				),
+			});
+		}
+		const { processingMode, targetTrackCount } = parsedSize.data;
+
+		const parsedConstraints = selectionConstraintsSchema.safeParse(
+			req.body.selectionConstraints || {}
+		);
+		if (!parsedConstraints.success) {
+			return res.status(400).json({
+				message: 'Invalid selection constraints',
+				errors: parsedConstraints.error.issues.map(
+					(issue) => `${issue.path.join('.')}: ${issue.message}`
+				),
+			});
+		}
+
+		const { sequencing } = req.body;
+		if (
+			sequencing !== undefined &&
+			!SEQUENCING_STRATEGIES.includes(sequencing)
+		) {
+			return res.status(400).json({
+				message: `Invalid sequencing strategy. Use one of: ${SEQUENCING_STRATEGIES.join(
+					', '
+				)}`,
+			});
+		}
+
+		const parsedDuration =
+			req.body.targetDuration != null
+				? durationTargetSchema.safeParse(req.body.targetDuration)
+				: null;
+		if (parsedDuration && !parsedDuration.success) {
+			return res.status(400).json({
+				message: 'Invalid target duration',
+				errors: parsedDuration.error.issues.map(
+					(issue) => `${issue.path.join('.')}: ${issue.message}`
+				),
+			});
+		}
+
+		const parsedOverrides = weightOverridesSchema.safeParse(
+			req.body.weightOverrides || {}
+		);
+		if (!parsedOverrides.success) {
+			return res.status(400).json({
+				message: 'Invalid weight overrides',
+				errors: parsedOverrides.error.issues.map((issue) => issue.message),
+			});
+		}
+
 		const accessToken = (req as any).accessToken;
 		const userId = (req as any).userId;
 
@@ -1584,7 +2339,7 @@ router.post('/generate-playlist', async (req: Request, res: Response) => {
 		}
 
 		console.log(
-			`Generating playlist for prompt: "${prompt}" with ${processingMode} mode`
+			`Queueing playlist generation for prompt: "${prompt}" with ${processingMode} mode`
 		);
 		console.log(`Using token: ${accessToken.substring(0, 10)}...`);
 
@@ -1593,28 +2348,9 @@ router.post('/generate-playlist', async (req: Request, res: Response) => {
 
 		if (sources.playlists && sources.playlists.length > 0) {
 			try {
-				const playlistsResponse = await fetch(
-					'https://api.spotify.com/v1/me/playlists?limit=50',
-					{
-						headers: { Authorization: `Bearer ${accessToken}` },
-					}
+				playlistSizes = getPlaylistSizes(
+					await fetchUserPlaylists(accessToken)
 				);
-
-				if (playlistsResponse.ok) {
-					const playlistsData = await playlistsResponse.json();
-					const playlists = playlistsData.items || [];
-
-					// Create map of playlist ID to track count
-					playlists.forEach((playlist: any) => {
-						if (
-							playlist.id &&
-							playlist.tracks &&
-							playlist.tracks.total
-						) {
-							playlistSizes[playlist.id] = playlist.tracks.total;
-						}
-					});
-				}
 			} catch (error) {
 				console.error('Error fetching playlist metadata:', error);
 			}
@@ -1631,546 +2367,1116 @@ router.post('/generate-playlist', async (req: Request, res: Response) => {
 			`Estimated processing time: ${estimatedSeconds} seconds (${warningLevel} impact)`
 		);
 
-		// 1. Analyze prompt
-		updatePlaylistProgress(
-			'preparing', // Temporary ID until we create the playlist
-			'analyzing',
-			5,
-			'Analyzing prompt with AI...',
-			processingMode
+		const user: any = req.user;
+		const jobId = await enqueueGenerationJob(
+			{
+				spotifyUserId: userId,
+				userId: user?._id,
+				accessToken,
+				request: {
+					prompt,
+					name,
+					description,
+					sources,
+					processingMode,
+					targetTrackCount,
+					estimatedSeconds,
+					draft: Boolean(draft),
+					weightOverrides: parsedOverrides.data,
+					selectionConstraints: parsedConstraints.data,
+					sequencing,
+					hiddenGems: Boolean(req.body.hiddenGems),
+					targetDuration: parsedDuration?.data || null,
+				},
+			},
+			runGenerationPipeline
 		);
 
-		const promptAnalysis = await analyzePlaylistPrompt(prompt);
-		console.log(
-			'Prompt analysis completed with genres:',
-			promptAnalysis.genres
-		);
+		return res.status(202).json({
+			message: 'Playlist generation queued',
+			jobId,
+			status: 'queued',
+			estimatedSeconds,
+			warningLevel,
+		});
+	} catch (error: any) {
+		console.error('Error queueing AI playlist generation:', error.message);
+		return res.status(500).json({
+			message: 'Failed to generate AI playlist',
+			error: error.message,
+		});
+	}
+});
 
-		// 2. Get available genre seeds and match them
-		updatePlaylistProgress(
-			'preparing',
-			'analyzing',
-			10,
-			'Matching genres...',
-			processingMode
-		);
+// The numeric values of audio features, without Spotify's IDs and URLs
+function numericFields(features: Record<string, any>) {
+	return Object.fromEntries(
+		Object.entries(features).filter(([, value]) => typeof value === 'number')
+	);
+}
 
-		const availableGenres = await getAvailableGenreSeeds(accessToken);
-		const matchedGenres = await matchGenresToAvailableSeeds(
-			promptAnalysis.genres,
-			availableGenres
-		);
-		console.log('Matched genres for recommendations:', matchedGenres);
+// Keep only the track fields the pipeline and response use, so checkpoints
+// stay small enough to persist
+function slimTrack(track: any) {
+	return {
+		id: track.id,
+		name: track.name,
+		uri: track.uri,
+		duration_ms: track.duration_ms,
+		popularity: track.popularity,
+		explicit: track.explicit,
+		// Lets feature datasets keyed by ISRC match the track
+		...(track.external_ids?.isrc || track.isrc
+			? { isrc: track.external_ids?.isrc || track.isrc }
+			: {}),
+		artists: (track.artists || []).map((artist: any) => ({
+			id: artist.id,
+			name: artist.name,
+			...(artist.genres ? { genres: artist.genres } : {}),
+		})),
+		album: track.album
+			? {
+					id: track.album.id,
+					name: track.album.name,
+					album_type: track.album.album_type,
+					release_date: track.album.release_date,
+					images: (track.album.images || []).slice(0, 1),
+			  }
+			: null,
+		source: track.source,
+		...(track.features !== undefined
+			? { features: track.features && numericFields(track.features) }
+			: {}),
+		...(track.featureSource ? { featureSource: track.featureSource } : {}),
+		...(track.extractedGenres
+			? { extractedGenres: track.extractedGenres }
+			: {}),
+		...(track.score !== undefined ? { score: track.score } : {}),
+		...(track.scoreDetails ? { scoreDetails: track.scoreDetails } : {}),
+		...(track.segment ? { segment: track.segment } : {}),
+	};
+}
 
-		// 3. Create the playlist shell
-		updatePlaylistProgress(
-			'preparing',
-			'creating',
-			15,
-			'Creating playlist...',
-			processingMode
+// Shape a selected track for the API response
+function formatTrackForResponse(track: any) {
+	const inRange = Object.values(track.scoreDetails?.inRange || {});
+	const rangeSummary =
+		inRange.length > 0
+			? `, ${inRange.filter(Boolean).length}/${
+					inRange.length
+			  } features in range`
+			: '';
+
+	return {
+		id: track.id,
+		name: track.name,
+		artist: track.artists.map((a: any) => a.name).join(', '),
+		uri: track.uri,
+		albumName: track.album?.name || null,
+		imageUrl: track.album?.images?.[0]?.url || null,
+		durationMs: track.duration_ms || 0,
+		score: track.score || null,
+		scoreDetails: track.scoreDetails || null,
+		popularity: track.popularity || 0,
+		source: track.source || null,
+		isDiscovery: track.source === 'discovery',
+		// The playlist section the track was selected for
+		segment: track.segment || null,
+		selectionReason: track.features
+			? `Selected based on audio features matching your request (score: ${
+					track.score ? track.score.toFixed(2) : 'N/A'
+			  }${rangeSummary})`
+			: `Selected based on popularity (${track.popularity || 0}/100)`,
+	};
+}
+
+// Tracks are enriched a window at a time, so only one window's lookups are
+// held in memory. Artist cache misses are requested in batches of 50.
+const ENRICHMENT_WINDOW_SIZE = 500;
+const SPOTIFY_BATCH_SIZE = 50;
+
+// A pool track as the checkpoints keep it; its metadata is in the catalog
+interface TrackRef {
+	id: string;
+	source: string;
+}
+
+// One enriched window of tracks, in the order they were given
+interface EnrichedWindow {
+	tracks: any[];
+	cacheHits: number;
+	cacheMisses: number;
+}
+
+// Tracks in windows of the enrichment window size
+async function* streamWindows(tracks: any[]): AsyncGenerator<any[]> {
+	for (let i = 0; i < tracks.length; i += ENRICHMENT_WINDOW_SIZE) {
+		yield tracks.slice(i, i + ENRICHMENT_WINDOW_SIZE);
+	}
+}
+
+// The tracks of enriched windows, without their cache counts
+async function* windowTracks(
+	windows: AsyncIterable<EnrichedWindow>
+): AsyncGenerator<any[]> {
+	for await (const window of windows) {
+		yield window.tracks;
+	}
+}
+
+// Stream pool tracks a window at a time from their references. Metadata
+// comes from the catalog cache the collect step filled, and is requested
+// again from Spotify, 50 tracks at a time, for entries that have expired.
+// Tracks Spotify no longer has are left out.
+async function* streamPoolTracks(
+	accessToken: string,
+	trackRefs: TrackRef[],
+	throwIfCancelled: () => void
+): AsyncGenerator<any[]> {
+	for (let i = 0; i < trackRefs.length; i += ENRICHMENT_WINDOW_SIZE) {
+		throwIfCancelled();
+
+		const refs = trackRefs.slice(i, i + ENRICHMENT_WINDOW_SIZE);
+		const metadata = await readCatalog(
+			'track',
+			refs.map((ref) => ref.id)
 		);
+		const missingIds = refs
+			.map((ref) => ref.id)
+			.filter((id) => !metadata.get(id));
 
-		let playlistTitle = name || 'AI Playlist';
+		for (let j = 0; j < missingIds.length; j += SPOTIFY_BATCH_SIZE) {
+			throwIfCancelled();
 
-		// Create an extremely short description - Spotify limit is 300 chars
-		let playlistDesc = '';
-		if (description) {
-			// If user provided their own description, use it (truncated)
-			playlistDesc = description.substring(0, 250);
-		} else if (promptAnalysis && promptAnalysis.description) {
-			// Use only the AI-generated description, no prompt text
-			playlistDesc = promptAnalysis.description.substring(0, 250);
-		} else {
-			// Fallback to a generic description
-			playlistDesc = 'AI-generated playlist based on your prompt.';
+			const idBatch = missingIds.slice(j, j + SPOTIFY_BATCH_SIZE);
+			try {
+				const response = await spotifyFetch(
+					accessToken,
+					`/tracks?ids=${idBatch.join(',')}`
+				);
+				if (!response.ok) {
+					console.error(
+						`Failed to get tracks. Status: ${response.status} ${response.statusText}`
+					);
+					continue;
+				}
+
+				const data = await response.json();
+				const fetched = (data.tracks || [])
+					.filter((track: any) => track?.id)
+					.map((track: any) => {
+						const { source, ...slim } = slimTrack(track);
+						return slim;
+					});
+				fetched.forEach((track: any) => metadata.set(track.id, track));
+				await writeCatalog(
+					'track',
+					fetched.map((track: any) => ({ id: track.id, data: track }))
+				);
+			} catch (error) {
+				console.error(
+					'Error getting tracks:',
+					error instanceof Error ? error.message : String(error)
+				);
+			}
 		}
 
-		// Final safety check
-		if (playlistDesc.length > 250) {
-			playlistDesc = playlistDesc.substring(0, 250);
+		const tracks = refs
+			.filter((ref) => metadata.get(ref.id))
+			.map((ref) => ({ ...metadata.get(ref.id), source: ref.source }));
+		if (tracks.length < refs.length) {
+			console.warn(
+				`Could not load ${refs.length - tracks.length} of ${
+					refs.length
+				} pool tracks`
+			);
 		}
+		yield tracks;
+	}
+}
 
-		console.log(
-			`Creating playlist: "${playlistTitle}" with description: "${playlistDesc}"`
+// Stream windows of tracks with their audio features attached. Each track
+// gets its features from the first provider that has them, and null when
+// none does. Given the number of tracks to select, estimation by the model is
+// limited to match it.
+async function* streamAudioFeatures(
+	accessToken: string,
+	windows: AsyncIterable<any[]>,
+	throwIfCancelled: () => void,
+	tracksToSelect?: number
+): AsyncGenerator<EnrichedWindow> {
+	const providers = getFeatureProviders();
+	// Providers that became unavailable are skipped for the later windows
+	const unavailable = new Set<FeatureProviderName>();
+	const estimationBudget =
+		tracksToSelect !== undefined
+			? { batches: estimationBatchLimit(tracksToSelect) }
+			: undefined;
+
+	for await (const tracks of windows) {
+		throwIfCancelled();
+
+		const lookup = await lookupFeatures(tracks, providers, {
+			accessToken,
+			throwIfCancelled,
+			unavailable,
+			estimationBudget,
+		});
+
+		yield {
+			tracks: tracks.map((track) => {
+				const found = lookup.features.get(track.id);
+				return {
+					...track,
+					features: found?.features ?? null,
+					...(found ? { featureSource: found.provider } : {}),
+				};
+			}),
+			cacheHits: lookup.cacheHits,
+			cacheMisses: lookup.cacheMisses,
+		};
+	}
+}
+
+// Fetch audio features for a few tracks, keeping their order
+async function fetchAudioFeaturesForTracks(
+	accessToken: string,
+	tracks: any[],
+	throwIfCancelled: () => void
+): Promise<{ tracks: any[]; cache: CacheLookupStats }> {
+	const tracksWithFeatures: any[] = [];
+	let cacheHits = 0;
+	let cacheMisses = 0;
+	for await (const window of streamAudioFeatures(
+		accessToken,
+		streamWindows(tracks),
+		throwIfCancelled
+	)) {
+		tracksWithFeatures.push(...window.tracks);
+		cacheHits += window.cacheHits;
+		cacheMisses += window.cacheMisses;
+	}
+
+	return {
+		tracks: tracksWithFeatures,
+		cache: toCacheLookupStats(cacheHits, cacheMisses),
+	};
+}
+
+// Stream windows of tracks with their artists' genres attached. Playlist
+// items, saved tracks and top tracks only carry simplified artists without
+// genres, so genres are looked up in the catalog cache first and then in
+// batches of 50 from Spotify. Cache hits and misses count each artist once.
+async function* streamArtistGenres(
+	accessToken: string,
+	windows: AsyncIterable<any[]>,
+	throwIfCancelled: () => void
+): AsyncGenerator<EnrichedWindow> {
+	// Genres of every artist looked up so far, null when Spotify has none
+	const artistGenres = new Map<string, string[] | null>();
+
+	for await (const tracks of windows) {
+		throwIfCancelled();
+
+		const newIds = Array.from(
+			new Set(
+				tracks.flatMap((track) =>
+					(track.artists || [])
+						.map((artist: any) => artist.id)
+						.filter((id: string) => id && !artistGenres.has(id))
+				)
+			)
 		);
 
-		// Create playlist with strictly limited description
-		const createResponse = await fetch(
-			`https://api.spotify.com/v1/users/${userId}/playlists`,
-			{
-				method: 'POST',
-				headers: {
-					Authorization: `Bearer ${accessToken}`,
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
-					name: playlistTitle,
-					description: playlistDesc.substring(0, 250), // Extra safety
-					public: false,
-				}),
-			}
+		const cachedArtists = await readCatalog('artist', newIds);
+		cachedArtists.forEach((artist, id) =>
+			artistGenres.set(id, artist?.genres || null)
 		);
+		const uncachedIds = newIds.filter((id) => !cachedArtists.has(id));
+
+		for (let j = 0; j < uncachedIds.length; j += SPOTIFY_BATCH_SIZE) {
+			throwIfCancelled();
+
+			const idBatch = uncachedIds.slice(j, j + SPOTIFY_BATCH_SIZE);
+			try {
+				const response = await spotifyFetch(
+					accessToken,
+					`/artists?ids=${idBatch.join(',')}`
+				);
+
+				if (!response.ok) {
+					console.error(
+						`Failed to get artists. Status: ${response.status} ${response.statusText}`
+					);
+					continue;
+				}
+
+				const data = await response.json();
+				// Unknown IDs come back as null, in request order
+				const entries = idBatch.map((id, index) => {
+					const artist = data.artists?.[index];
+					return {
+						id,
+						data:
+							artist && artist.id === id
+								? {
+										id: artist.id,
+										name: artist.name,
+										genres: artist.genres || [],
+										popularity: artist.popularity,
+								  }
+								: null,
+					};
+				});
+
+				entries.forEach((entry) =>
+					artistGenres.set(entry.id, entry.data?.genres || null)
+				);
+				await writeCatalog('artist', entries);
+			} catch (error) {
+				console.error(
+					'Error getting artists:',
+					error instanceof Error ? error.message : String(error)
+				);
+			}
+		}
+
+		yield {
+			tracks: tracks.map((track) => {
+				const trackArtists = (track.artists || []).map((artist: any) => {
+					const genres = artistGenres.get(artist.id) || artist.genres;
+					return genres ? { ...artist, genres } : artist;
+				});
+				const extractedGenres: string[] = Array.from(
+					new Set(
+						trackArtists.flatMap((artist: any) => artist.genres || [])
+					)
+				);
+
+				return {
+					...track,
+					artists: trackArtists,
+					...(extractedGenres.length > 0 ? { extractedGenres } : {}),
+				};
+			}),
+			cacheHits: newIds.length - uncachedIds.length,
+			cacheMisses: uncachedIds.length,
+		};
+	}
+}
 
-		if (!createResponse.ok) {
-			const errorData = await createResponse.json();
-			console.error('Failed to create playlist:', errorData);
-			return res.status(createResponse.status).json({
-				message: 'Failed to create playlist',
-				error: errorData,
-			});
-		}
+// The generation pipeline run by the job queue, with the Spotify requests of
+// this run counted for processingStats
+function runGenerationPipeline(job: GenerationJobContext) {
+	return trackSpotifyRequests(() => generatePlaylist(job));
+}
 
-		const playlist = await createResponse.json();
-		console.log(`Playlist created successfully, ID: ${playlist.id}`);
+// Each checkpointed step is skipped when a resumed job already completed it
+async function generatePlaylist(job: GenerationJobContext) {
+	const { accessToken, spotifyUserId } = job;
+	const {
+		prompt,
+		name,
+		description,
+		sources,
+		processingMode,
+		targetTrackCount,
+		estimatedSeconds,
+		weightOverrides,
+	} = job.request;
+	const selectionConstraints: SelectionConstraints = {
+		...DEFAULT_SELECTION_CONSTRAINTS,
+		...job.request.selectionConstraints,
+	};
+	const startTime = Date.now();
 
-		// Now that we have a playlist ID, use it for progress tracking
-		// Move the progress from temporary ID to the actual playlist ID
-		const tempProgress = playlistProgressMap.get('preparing');
-		if (tempProgress) {
-			playlistProgressMap.set(playlist.id, tempProgress);
-			playlistProgressMap.delete('preparing');
-		}
+	console.log(
+		`Generating playlist for prompt: "${prompt}" with ${processingMode} mode (job ${job.jobId})`
+	);
 
-		// 4. Collect tracks from selected sources
-		updatePlaylistProgress(
-			playlist.id,
+	// 1. Analyze prompt
+	const { analysis: promptAnalysis, provider: analysisProvider } =
+		await job.step('analyze', async () => {
+			job.progress('analyzing', 5, 'Analyzing prompt with AI...');
+			const result = await analyzePlaylistPrompt(prompt);
+			console.log(
+				'Prompt analysis completed with genres:',
+				result.analysis.genres
+			);
+			return result;
+		});
+
+	// 2. Get available genre seeds and match them
+	const matchedGenres = await job.step('matchGenres', async () => {
+		job.progress('analyzing', 10, 'Matching genres...');
+		const availableGenres = await getAvailableGenreSeeds(accessToken);
+		const genres = await matchGenresToAvailableSeeds(
+			promptAnalysis.genres,
+			availableGenres
+		);
+		console.log('Matched genres for recommendations:', genres);
+		return genres;
+	});
+
+	// 3. Collect tracks from selected sources. Their metadata goes to the
+	// catalog cache, so the checkpoint only keeps references.
+	const collection: {
+		trackRefs: TrackRef[];
+		sampling: PoolSamplingStats;
+		playlistCache: CacheLookupStats;
+	} = await job.step('collect', async () => {
+		job.progress(
 			'collecting',
 			20,
-			'Collecting tracks from selected sources...',
-			processingMode
+			'Collecting tracks from selected sources...'
 		);
 
-		// Use our new flexible track collection system with progress tracking
-		const collectedTracks = await collectTracks(
+		// Use our new flexible track collection system with progress tracking.
+		// Sampling is seeded with the job ID so a job always samples the same way.
+		const { tracks, sampling, playlistCache } = await collectTracks(
 			accessToken,
 			sources,
 			processingMode,
+			promptAnalysis,
+			matchedGenres,
+			job.jobId,
+			job.throwIfCancelled,
 			(progress) => {
 				// Update our progress tracking with the information
-				updatePlaylistProgress(
-					playlist.id,
+				job.progress(
 					progress.stage,
 					progress.progress,
 					progress.message,
-					processingMode
+					progress.sources
 				);
 			}
 		);
 
-		// 5. Process audio features for collected tracks
-		updatePlaylistProgress(
-			playlist.id,
-			'processing',
-			75,
-			'Analyzing audio features...',
-			processingMode
+		// Tracks come back slimmed. Keep their metadata in the shared catalog;
+		// the source is per-request.
+		await writeCatalog(
+			'track',
+			tracks.map(({ source, ...metadata }) => ({
+				id: metadata.id,
+				data: metadata,
+			}))
 		);
+		return {
+			trackRefs: tracks.map((track) => ({
+				id: track.id,
+				source: track.source,
+			})),
+			sampling,
+			playlistCache,
+		};
+	});
 
-		// Get audio features for tracks
-		let tracksWithFeatures: any[] = [];
-		try {
-			if (collectedTracks.length === 0) {
-				console.warn(
-					'No tracks collected to analyze for audio features'
-				);
-			} else {
-				console.log(
-					`Attempting to get audio features for ${collectedTracks.length} tracks`
-				);
-
-				// Get audio features in batches to avoid URL length limits
-				const batchSize = 50;
-				for (let i = 0; i < collectedTracks.length; i += batchSize) {
-					const trackBatch = collectedTracks.slice(i, i + batchSize);
-					const trackIds = trackBatch
-						.map((track) => track.id)
-						.join(',');
-
-					if (!trackIds || trackIds.length === 0) {
-						console.warn('Empty track IDs batch, skipping');
-						continue;
-					}
-
-					console.log(
-						`Requesting audio features for batch ${
-							i / batchSize + 1
-						}/${Math.ceil(collectedTracks.length / batchSize)} (${
-							trackBatch.length
-						} tracks)`
-					);
-
-					const featuresResponse = await fetch(
-						`https://api.spotify.com/v1/audio-features?ids=${trackIds}`,
-						{
-							headers: {
-								Authorization: `Bearer ${accessToken}`,
-							},
-						}
-					);
-
-					if (featuresResponse.ok) {
-						const featuresData = await featuresResponse.json();
-
-						if (
-							!featuresData.audio_features ||
-							!Array.isArray(featuresData.audio_features)
-						) {
-							console.error(
-								'Invalid audio features response format:',
-								featuresData
-							);
-							continue;
-						}
-
-						const features = featuresData.audio_features;
-						console.log(
-							`Received ${
-								features.filter((f: any) => f !== null).length
-							} valid audio features out of ${
-								features.length
-							} requested`
-						);
+	// Hidden gems mode, asked for in the request or the prompt
+	const wantsHiddenGems = Boolean(
+		job.request.hiddenGems || promptAnalysis.hidden_gems
+	);
 
-						// Combine tracks with their features
-						const batchWithFeatures = trackBatch.map((track) => {
-							const trackFeatures = features.find(
-								(f: any) => f && f.id === track.id
-							);
-							return {
-								...track,
-								features: trackFeatures || null,
-							};
-						});
-
-						tracksWithFeatures = [
-							...tracksWithFeatures,
-							...batchWithFeatures,
-						];
-					} else {
-						// Log detailed error information
-						console.error(
-							`Failed to get audio features. Status: ${featuresResponse.status} ${featuresResponse.statusText}`
-						);
-						try {
-							const errorData = await featuresResponse.json();
-							console.error(
-								'Error details:',
-								JSON.stringify(errorData)
-							);
-						} catch (e) {
-							console.error('Could not parse error response');
-						}
+	// 4. Look up artist genres so genre matching has something to work with,
+	// then trim the pool to its target size, preferring tracks in the
+	// requested genres. Only what sampling needs is kept of each track.
+	const genreLookup: {
+		trackRefs: TrackRef[];
+		cacheStats: CacheLookupStats;
+		sampling: PoolSamplingStats;
+		familiarArtistIds: string[] | null;
+	} = await job.step('artistGenres', async () => {
+		job.progress('processing', 70, 'Looking up artist genres...');
+		const poolTracks: any[] = [];
+		const familiarArtistIds = new Set<string>();
+		let cacheHits = 0;
+		let cacheMisses = 0;
+		for await (const window of streamArtistGenres(
+			accessToken,
+			streamPoolTracks(
+				accessToken,
+				collection.trackRefs,
+				job.throwIfCancelled
+			),
+			job.throwIfCancelled
+		)) {
+			cacheHits += window.cacheHits;
+			cacheMisses += window.cacheMisses;
+			if (wantsHiddenGems) {
+				collectFamiliarArtistIds(window.tracks, familiarArtistIds);
+			}
+			poolTracks.push(
+				...window.tracks.map((track) => ({
+					id: track.id,
+					source: track.source,
+					popularity: track.popularity,
+					extractedGenres: track.extractedGenres,
+				}))
+			);
+		}
 
-						// Try an alternative approach - get features one by one
-						console.log(
-							'Trying alternative approach to get audio features one by one...'
-						);
-						const batchWithFeatures = [];
+		const sampled = sampleTrackPool(
+			poolTracks,
+			collection.sampling,
+			promptAnalysis.genres
+		);
+		return {
+			trackRefs: sampled.tracks.map(({ id, source }) => ({ id, source })),
+			cacheStats: toCacheLookupStats(cacheHits, cacheMisses),
+			sampling: sampled.sampling,
+			familiarArtistIds: wantsHiddenGems
+				? Array.from(familiarArtistIds)
+				: null,
+		};
+	});
 
-						for (const track of trackBatch) {
-							try {
-								// Small delay to avoid rate limiting
-								await new Promise((resolve) =>
-									setTimeout(resolve, 100)
-								);
+	// The analysis weights with the user's overrides on top
+	const scoringWeights = resolveFeatureWeights(
+		promptAnalysis,
+		weightOverrides
+	);
 
-								// Try to get feature for a single track using the track endpoint
-								const singleTrackResponse = await fetch(
-									`https://api.spotify.com/v1/audio-features/${track.id}`,
-									{
-										headers: {
-											Authorization: `Bearer ${accessToken}`,
-										},
-									}
-								);
+	// A duration in the request wins over one stated in the prompt. Enough
+	// candidates are kept to fill it with short tracks.
+	const durationTarget: DurationTarget | null =
+		job.request.targetDuration ||
+		(promptAnalysis.target_duration_minutes
+			? durationTargetSchema.parse({
+					minutes: promptAnalysis.target_duration_minutes,
+			  })
+			: null);
+
+	const hiddenGems: HiddenGemsContext | null = genreLookup.familiarArtistIds
+		? { familiarArtistIds: new Set(genreLookup.familiarArtistIds) }
+		: null;
+
+	// The playlist's sections in order, each with its share of the length
+	const segments = resolveSegments(promptAnalysis);
+	const segmentTrackCounts = splitTrackCount(targetTrackCount, segments);
+	const segmentDurations = durationTarget
+		? splitDurationTarget(durationTarget, segments)
+		: null;
+	const segmentTrackCount = (segment: PlaylistSegment) => {
+		const segmentDuration = segmentDurations?.[segment.index];
+		return segmentDuration
+			? estimateTrackCount(segmentDuration)
+			: segmentTrackCounts[segment.index];
+	};
 
-								if (singleTrackResponse.ok) {
-									const trackFeature =
-										await singleTrackResponse.json();
-									batchWithFeatures.push({
-										...track,
-										features: trackFeature,
-									});
-									console.log(
-										`Successfully got features for track: ${track.name}`
-									);
-								} else {
-									// Still include the track without features
-									batchWithFeatures.push({
-										...track,
-										features: null,
-									});
-									console.log(
-										`Failed to get features for track: ${track.name}`
-									);
-								}
-							} catch (singleTrackError) {
-								console.error(
-									`Error getting features for track ${track.id}:`,
-									singleTrackError
-								);
-								batchWithFeatures.push({
-									...track,
-									features: null,
-								});
-							}
-						}
+	// Tracks in the user's recent AI playlists, skipped when selecting
+	const excludedTrackIds = selectionConstraints.excludeRecentAIPlaylists
+		? await getRecentAIPlaylistTrackIds(
+				spotifyUserId,
+				selectionConstraints.recentPlaylistCount
+		  )
+		: new Set<string>();
+
+	// 5. Process audio features for the pool and score it as it streams, so
+	// only each segment's best candidates are kept
+	const featureLookup: {
+		candidates: SegmentCandidates[];
+		poolStats: PoolStats;
+		cacheStats: CacheLookupStats;
+	} = await job.step('features', async () => {
+		job.progress('processing', 75, 'Analyzing audio features...');
+
+		// Room for the recently used tracks and those earlier segments take
+		let reserve = excludedTrackIds.size;
+		const collectors = segments.map((segment) => {
+			const collector = new CandidateCollector(
+				segment.analysis,
+				segmentTrackCount(segment),
+				scoringWeights,
+				hiddenGems,
+				reserve
+			);
+			reserve += segmentTrackCount(segment);
+			return collector;
+		});
 
-						tracksWithFeatures = [
-							...tracksWithFeatures,
-							...batchWithFeatures,
-						];
-					}
+		const poolStats = emptyPoolStats();
+		let cacheHits = 0;
+		let cacheMisses = 0;
+		const windows = streamAudioFeatures(
+			accessToken,
+			// Genres come from the catalog cache the last step filled
+			windowTracks(
+				streamArtistGenres(
+					accessToken,
+					streamPoolTracks(
+						accessToken,
+						genreLookup.trackRefs,
+						job.throwIfCancelled
+					),
+					job.throwIfCancelled
+				)
+			),
+			job.throwIfCancelled,
+			segments.reduce((sum, segment) => sum + segmentTrackCount(segment), 0)
+		);
+		for await (const window of windows) {
+			cacheHits += window.cacheHits;
+			cacheMisses += window.cacheMisses;
+			addPoolStats(poolStats, window.tracks, promptAnalysis);
+
+			// Artists, genres, versions and explicit tracks the prompt rules
+			// out are dropped before anything is scored
+			const exclusion = applyExclusions(
+				window.tracks,
+				promptAnalysis.exclusions
+			);
+			poolStats.excludedTrackCount += exclusion.excluded.length;
+			poolStats.excludedTracks.push(
+				...exclusion.excluded.slice(
+					0,
+					MAX_LISTED_EXCLUSIONS - poolStats.excludedTracks.length
+				)
+			);
 
-					// Add a small delay between API calls to avoid rate limiting
-					await new Promise((resolve) => setTimeout(resolve, 200)); // Use fixed delay instead of config
-				}
+			for (const track of exclusion.tracks) {
+				collectors.forEach((collector) => collector.add(track));
 			}
-
+		}
+		if (poolStats.excludedTrackCount > 0) {
 			console.log(
-				`Retrieved audio features for ${
-					tracksWithFeatures.filter((t) => t.features).length
-				} tracks out of ${tracksWithFeatures.length} total tracks`
+				`Excluded ${poolStats.excludedTrackCount} tracks ruled out by the prompt`
 			);
-		} catch (featuresError) {
-			console.error(
-				'Failed to get audio features, using tracks without features:',
-				featuresError instanceof Error
-					? featuresError.message
-					: String(featuresError)
-			);
-			// Still use the tracks we collected even without features
-			tracksWithFeatures = collectedTracks.map((track) => ({
-				...track,
-				features: null,
-			}));
 		}
 
-		// 6. Use our filtering/scoring system even if some tracks are missing features
-		updatePlaylistProgress(
-			playlist.id,
+		const poolHasFeatures = poolStats.tracksWithFeatures > 0;
+		return {
+			candidates: collectors.map((collector) =>
+				collector.candidates(poolHasFeatures)
+			),
+			poolStats,
+			cacheStats: toCacheLookupStats(cacheHits, cacheMisses),
+		};
+	});
+	const { poolStats } = featureLookup;
+
+	// 6. Use our filtering/scoring system even if some tracks are missing features
+	const selection: {
+		tracks: any[];
+		constraintStats: SelectionConstraintStats;
+		duration?: DurationFillStats | null;
+	} = await job.step('select', async () => {
+		job.progress(
 			'selecting',
 			85,
-			'Selecting the best tracks for your playlist...',
-			processingMode
+			'Selecting the best tracks for your playlist...'
 		);
 
-		// Modify the selection process to handle missing features
-		let selectedTracks;
-
-		if (tracksWithFeatures.some((track) => track.features)) {
+		const hasFeatures = poolStats.tracksWithFeatures > 0;
+		if (hasFeatures) {
 			console.log(
-				`Filtering ${
-					tracksWithFeatures.filter((t) => t.features).length
-				} tracks with audio features`
-			);
-			selectedTracks = filterTracksByAIAnalysis(
-				tracksWithFeatures,
-				promptAnalysis,
-				targetTrackCount
+				`Filtering ${poolStats.tracksWithFeatures} tracks with audio features`
 			);
 		} else {
 			// If no tracks have features, select based on popularity or random selection
 			console.log(
 				'No tracks have audio features, selecting based on popularity'
 			);
-			selectedTracks = collectedTracks
-				.sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
-				.slice(0, targetTrackCount);
 		}
 
-		console.log(
-			`Selected ${selectedTracks.length} tracks for the playlist`
-		);
-
-		// 7. Add tracks to the playlist
-		updatePlaylistProgress(
-			playlist.id,
-			'finalizing',
-			90,
-			'Adding tracks to your playlist...',
-			processingMode
-		);
-
-		if (selectedTracks.length > 0) {
-			console.log(
-				`Adding ${selectedTracks.length} tracks to playlist...`
-			);
-			const trackUris = selectedTracks.map((t) => t.uri);
-
-			const addTracksResponse = await fetch(
-				`https://api.spotify.com/v1/playlists/${playlist.id}/tracks`,
-				{
-					method: 'POST',
-					headers: {
-						Authorization: `Bearer ${accessToken}`,
-						'Content-Type': 'application/json',
+		// Each segment is selected on its own, from the tracks no earlier
+		// segment took
+		const usedTrackIds = new Set<string>();
+		const tracks: any[] = [];
+		let constraintStats = emptyConstraintStats();
+
+		for (const segment of segments) {
+			const segmentDuration = segmentDurations?.[segment.index] || null;
+			const remainingTracks = (pool: any[]) =>
+				pool.filter((track) => !usedTrackIds.has(track.id));
+			const candidates = featureLookup.candidates[segment.index];
+
+			let result;
+			if (hasFeatures) {
+				result = filterTracksByAIAnalysis(
+					{
+						...candidates,
+						scored: remainingTracks(candidates.scored),
+						popular: remainingTracks(candidates.popular),
 					},
-					body: JSON.stringify({ uris: trackUris }),
-				}
-			);
-
-			if (!addTracksResponse.ok) {
-				console.error(
-					'Failed to add tracks to playlist:',
-					await addTracksResponse.json()
+					segment.analysis,
+					segmentTrackCount(segment),
+					scoringWeights,
+					selectionConstraints,
+					excludedTrackIds,
+					hiddenGems,
+					segmentDuration
 				);
 			} else {
-				console.log('Tracks added to playlist successfully');
+				// Candidates without features are already ranked by popularity fit
+				const rankedTracks = remainingTracks(candidates.popular);
+				const selected = segmentDuration
+					? selectForDuration(
+							rankedTracks,
+							segmentDuration,
+							selectionConstraints,
+							excludedTrackIds
+					  )
+					: applySelectionConstraints(
+							rankedTracks,
+							segmentTrackCount(segment),
+							selectionConstraints,
+							excludedTrackIds
+					  );
+				result = { tracks: selected.tracks, constraintStats: selected.stats };
 			}
-		} else {
-			console.log('No tracks selected, creating empty playlist');
+			if (segments.length > 1) {
+				console.log(
+					`Segment ${segment.index + 1} "${segment.label}": selected ${
+						result.tracks.length
+					} tracks`
+				);
+			}
+			// Tracks are only labelled when the playlist has several segments
+			const segmentLabel: SegmentLabel | null =
+				segments.length > 1
+					? { index: segment.index, label: segment.label }
+					: null;
+			for (const track of result.tracks) {
+				usedTrackIds.add(track.id);
+				tracks.push(
+					segmentLabel ? { ...track, segment: segmentLabel } : track
+				);
+			}
+			constraintStats = addConstraintStats(
+				constraintStats,
+				result.constraintStats
+			);
 		}
 
-		// 8. Save to our database
-		updatePlaylistProgress(
-			playlist.id,
-			'finalizing',
-			95,
-			'Finalizing playlist...',
-			processingMode
+		console.log(`Selected ${tracks.length} tracks for the playlist`);
+		return {
+			tracks: tracks.map(slimTrack),
+			constraintStats,
+			duration: durationTarget
+				? combineDurationFills(durationTarget, tracks)
+				: null,
+		};
+	});
+
+	// 7. Order the selected tracks for playback. Each segment is ordered on its
+	// own so the segments stay in sequence.
+	const sequencingStrategy: SequencingStrategy =
+		job.request.sequencing || promptAnalysis.sequence_strategy;
+	const sequencing: { tracks: any[]; stats: SequencingStats } =
+		await job.step('sequence', async () => {
+			job.progress('sequencing', 87, 'Ordering tracks...');
+			const tracks: any[] = [];
+			let sequencedTracks = 0;
+			for (const segment of segments) {
+				const strategy: SequencingStrategy =
+					job.request.sequencing || segment.analysis.sequence_strategy;
+				const sequenced = sequenceTracks(
+					selection.tracks.filter(
+						(track) => (track.segment?.index || 0) === segment.index
+					),
+					strategy
+				);
+				sequencedTracks += sequenced.sequencedTracks;
+
+				// Reordering can put an artist next to itself again
+				tracks.push(
+					...(selectionConstraints.noConsecutiveArtist &&
+					strategy !== 'none'
+						? spaceOutArtists(sequenced.tracks).tracks
+						: sequenced.tracks)
+				);
+			}
+
+			return {
+				tracks,
+				stats: {
+					strategy: sequencingStrategy,
+					chosenBy: job.request.sequencing ? 'user' : 'analysis',
+					sequencedTracks,
+					...measureTransitions(tracks),
+				},
+			};
+		});
+	const selectedTracks = sequencing.tracks;
+
+	// Statistics reported with both drafts and finished playlists
+	const buildProcessingStats = () => ({
+		mode: processingMode,
+		analysisProvider,
+		scoringWeights,
+		hardConstraints: promptAnalysis.hard_constraints,
+		excludedByHardConstraints: poolStats.excludedByHardConstraints,
+		unverifiedByHardConstraints: poolStats.unverifiedByHardConstraints,
+		exclusions: promptAnalysis.exclusions,
+		// Tracks the prompt ruled out, with the reason, for auditing
+		excludedTracks: poolStats.excludedTracks,
+		excludedTrackCount: poolStats.excludedTrackCount,
+		selectionConstraints,
+		constraintStats: selection.constraintStats,
+		// Set when the playlist was filled to a total length
+		duration: selection.duration
+			? {
+					...selection.duration,
+					chosenBy: job.request.targetDuration ? 'user' : 'analysis',
+			  }
+			: null,
+		sequencing: sequencing.stats,
+		// Set when the prompt split the playlist into sections
+		segments:
+			segments.length > 1
+				? segments.map((segment) => ({
+						label: segment.label,
+						share: Math.round(segment.share * 100) / 100,
+						tracksSelected: selectedTracks.filter(
+							(t) => t.segment?.index === segment.index
+						).length,
+						sequencing:
+							job.request.sequencing ||
+							segment.analysis.sequence_strategy,
+				  }))
+				: null,
+		moods: resolveMoods(promptAnalysis.moods),
+		popularity: {
+			level: hiddenGems ? 'low' : promptAnalysis.popularity_level,
+			hiddenGems: hiddenGems
+				? {
+						chosenBy: job.request.hiddenGems ? 'user' : 'analysis',
+						familiarArtists: hiddenGems.familiarArtistIds.size,
+				  }
+				: null,
+		},
+		poolSampling: genreLookup.sampling,
+		// Requests made by this run; a resumed job only counts its last run
+		spotifyRequests: getSpotifyRequestCounts(),
+		cache: {
+			playlists: collection.playlistCache,
+			artists: genreLookup.cacheStats,
+			audioFeatures: featureLookup.cacheStats,
+		},
+		// Share of analyzed tracks whose artists have known genres
+		genreCoverage:
+			poolStats.tracksAnalyzed > 0
+				? Math.round(
+						(poolStats.tracksWithGenres / poolStats.tracksAnalyzed) * 100
+				  ) / 100
+				: 0,
+		totalTimeSeconds: Math.ceil((Date.now() - startTime) / 1000),
+		tracksAnalyzed: poolStats.tracksAnalyzed,
+		tracksSelected: selectedTracks.length,
+		discoveryTracks: selectedTracks.filter((t) => t.source === 'discovery')
+			.length,
+		estimatedSeconds: estimatedSeconds,
+		tracksWithFeatures: poolStats.tracksWithFeatures,
+		// Tracks with features per provider
+		featureSources: poolStats.featureSources,
+		audioFeaturesStatus:
+			poolStats.tracksWithFeatures > 0 ? 'available' : 'unavailable',
+		selectionMethod:
+			poolStats.tracksWithFeatures > 0 ? 'audio_features' : 'popularity',
+	});
+
+	if (selectedTracks.length === 0) {
+		throw new Error(
+			'No tracks matched your prompt, so no playlist was created'
 		);
+	}
 
-		try {
-			const user: any = req.user;
-			const savedPlaylist = await Playlist.create({
-				name: playlistTitle,
-				userId: user?._id,
-				spotifyId: playlist.id,
-				coverImage: playlist.images?.[0]?.url || '',
-				description: playlistDesc,
-				isAIGenerated: true,
-				tracksCount: selectedTracks.length,
-				duration: selectedTracks.reduce(
-					(total, track) => total + (track.duration_ms || 0) / 1000,
-					0
-				),
-				prompt: prompt,
+	// In draft mode stop before writing anything to Spotify and return the
+	// candidates for review. Committing the draft resumes the job from here.
+	if (job.request.draft) {
+		job.progress('complete', 100, 'Draft ready for review');
+		return {
+			message: 'Draft playlist ready for review',
+			jobId: job.jobId,
+			draft: true,
+			playlist: {
+				name: name || 'AI Playlist',
+				description: description || promptAnalysis.description || '',
+				tracks: selectedTracks.map(formatTrackForResponse),
 				aiAnalysis: promptAnalysis,
 				genresUsed: matchedGenres,
-				processingMode: processingMode,
-				sourceStats: {
-					likedSongs: sources.useLikedSongs,
-					topTracks: sources.useTopTracks,
-					useRecommendations: sources.useRecommendations,
-					playlistCount: sources.playlists?.length || 0,
-				},
-			});
-			console.log('Playlist saved to database');
-		} catch (dbError) {
-			console.error(
-				'Failed to save playlist to database, continuing anyway'
-			);
-		}
+			},
+			processingStats: buildProcessingStats(),
+		};
+	}
 
-		// 9. Mark as complete and return the playlist data
-		updatePlaylistProgress(
-			playlist.id,
-			'complete',
-			100,
-			'Playlist created successfully!',
-			processingMode
-		);
+	let playlistTitle = name || 'AI Playlist';
 
-		// Log detailed track selection information
-		console.log('\nPlaylist selection summary:');
-		console.log(`Processing mode: ${processingMode}`);
-		console.log(`Total tracks collected: ${collectedTracks.length}`);
-		console.log(
-			`Tracks with audio features: ${
-				tracksWithFeatures.filter((t) => t.features).length
-			}/${tracksWithFeatures.length}`
-		);
+	// Create an extremely short description - Spotify limit is 300 chars
+	let playlistDesc = '';
+	if (description) {
+		// If user provided their own description, use it (truncated)
+		playlistDesc = description.substring(0, 250);
+	} else if (promptAnalysis && promptAnalysis.description) {
+		// Use only the AI-generated description, no prompt text
+		playlistDesc = promptAnalysis.description.substring(0, 250);
+	} else {
+		// Fallback to a generic description
+		playlistDesc = 'AI-generated playlist based on your prompt.';
+	}
+
+	// Final safety check
+	if (playlistDesc.length > 250) {
+		playlistDesc = playlistDesc.substring(0, 250);
+	}
+
+	// 8. Create the playlist shell now that tracks have been chosen
+	const playlist = await job.step('createShell', async () => {
+		job.progress('creating', 88, 'Creating playlist...');
 		console.log(
-			`Selection method: ${
-				tracksWithFeatures.some((t) => t.features)
-					? 'audio_features'
-					: 'popularity'
-			}`
+			`Creating playlist: "${playlistTitle}" with description: "${playlistDesc}"`
 		);
-		console.log(`Target track count: ${targetTrackCount}`);
-		console.log(`Actual selected tracks: ${selectedTracks.length}`);
-		console.log(
-			`Average popularity of selected tracks: ${(
-				selectedTracks.reduce(
-					(sum, t) => sum + (t.popularity || 0),
-					0
-				) / selectedTracks.length
-			).toFixed(1)}`
+
+		// Create playlist with strictly limited description
+		const createResponse = await spotifyFetch(
+			accessToken,
+			`/users/${spotifyUserId}/playlists`,
+			{
+				method: 'POST',
+				body: {
+					name: playlistTitle,
+					description: playlistDesc.substring(0, 250), // Extra safety
+					public: false,
+				},
+			}
 		);
 
-		// All selected tracks with their selection reasons
-		console.log('\nSelected tracks:');
-		selectedTracks.forEach((track, index) => {
-			console.log(
-				`${index + 1}. "${track.name}" by ${
-					track.artists?.[0]?.name || 'Unknown'
-				} - Popularity: ${track.popularity || 0} | Has features: ${
-					track.features ? 'yes' : 'no'
+		if (!createResponse.ok) {
+			const errorData = await createResponse.json();
+			console.error('Failed to create playlist:', errorData);
+			throw new Error(
+				`Failed to create playlist: ${
+					errorData?.error?.message || createResponse.statusText
 				}`
 			);
-		});
-		console.log('\n');
+		}
 
-		return res.status(201).json({
-			message: 'AI playlist created successfully',
-			playlist: {
-				id: playlist.id,
-				name: playlistTitle,
-				description: playlistDesc,
-				tracks: selectedTracks.map((track) => ({
-					id: track.id,
-					name: track.name,
-					artist: track.artists.map((a: any) => a.name).join(', '),
-					uri: track.uri,
-					score: track.score || null,
-					scoreDetails: track.scoreDetails || null,
-					popularity: track.popularity || 0,
-					selectionReason: track.features
-						? `Selected based on audio features matching your request (score: ${
-								track.score ? track.score.toFixed(2) : 'N/A'
-						  })`
-						: `Selected based on popularity (${
-								track.popularity || 0
-						  }/100)`,
-				})),
-				url:
-					playlist.external_urls?.spotify ||
-					`https://open.spotify.com/playlist/${playlist.id}`,
-				aiAnalysis: promptAnalysis,
-				genresUsed: matchedGenres,
-			},
-			processingStats: {
-				mode: processingMode,
-				totalTimeSeconds: Math.ceil(
-					(Date.now() - new Date().getTime()) / 1000
-				),
-				tracksAnalyzed: tracksWithFeatures.length,
-				tracksSelected: selectedTracks.length,
-				estimatedSeconds: estimatedSeconds,
-				tracksWithFeatures: tracksWithFeatures.filter((t) => t.features)
-					.length,
-				audioFeaturesStatus: tracksWithFeatures.some((t) => t.features)
-					? 'available'
-					: 'unavailable',
-				selectionMethod: tracksWithFeatures.some((t) => t.features)
-					? 'audio_features'
-					: 'popularity',
-			},
-			refinementData: {
-				promptAnalysis,
-				playlistId: playlist.id,
+		const created = await createResponse.json();
+		console.log(`Playlist created successfully, ID: ${created.id}`);
+		return {
+			id: created.id,
+			url:
+				created.external_urls?.spotify ||
+				`https://open.spotify.com/playlist/${created.id}`,
+			coverImage: created.images?.[0]?.url || '',
+		};
+	});
+
+	// 9. Add tracks to the playlist
+	await job.step('addTracks', async () => {
+		job.progress('finalizing', 90, 'Adding tracks to your playlist...');
+
+		if (selectedTracks.length === 0) {
+			console.log('No tracks selected, creating empty playlist');
+			return { added: 0 };
+		}
+
+		console.log(`Adding ${selectedTracks.length} tracks to playlist...`);
+		const trackUris = selectedTracks.map((t) => t.uri);
+
+		try {
+			await setPlaylistTracks(accessToken, playlist.id, trackUris);
+		} catch (error: any) {
+			console.error(
+				'Failed to add tracks to playlist:',
+				error.details || error.message
+			);
+			throw new Error(`Failed to add tracks to playlist: ${error.message}`);
+		}
+
+		console.log('Tracks added to playlist successfully');
+		return { added: trackUris.length };
+	});
+
+	// 10. Save to our database
+	job.progress('finalizing', 95, 'Finalizing playlist...');
+
+	try {
+		await Playlist.create({
+			name: playlistTitle,
+			userId: job.userId,
+			spotifyUserId,
+			spotifyId: playlist.id,
+			coverImage: playlist.coverImage,
+			description: playlistDesc,
+			isAIGenerated: true,
+			tracksCount: selectedTracks.length,
+			trackIds: selectedTracks.map((track) => track.id),
+			duration: selectedTracks.reduce(
+				(total, track) => total + (track.duration_ms || 0) / 1000,
+				0
+			),
+			prompt: prompt,
+			aiAnalysis: promptAnalysis,
+			genresUsed: matchedGenres,
+			processingMode: processingMode,
+			sourceStats: {
+				likedSongs: sources.useLikedSongs,
+				topTracks: sources.useTopTracks,
+				useRecommendations: sources.useRecommendations,
+				playlistCount: sources.playlists?.length || 0,
 			},
 		});
-	} catch (error: any) {
-		console.error('Error generating AI playlist:', error.message);
-		return res.status(500).json({
-			message: 'Failed to generate AI playlist',
-			error: error.message,
-		});
+		console.log('Playlist saved to database');
+	} catch (dbError) {
+		console.error('Failed to save playlist to database, continuing anyway');
 	}
-});
+
+	// 11. Mark as complete and return the playlist data
+	job.progress('complete', 100, 'Playlist created successfully!');
+
+	// Log detailed track selection information
+	console.log('\nPlaylist selection summary:');
+	console.log(`Processing mode: ${processingMode}`);
+	console.log(`Total tracks collected: ${collection.trackRefs.length}`);
+	console.log(
+		`Tracks with audio features: ${poolStats.tracksWithFeatures}/${poolStats.tracksAnalyzed}`
+	);
+	console.log(
+		`Selection method: ${
+			poolStats.tracksWithFeatures > 0 ? 'audio_features' : 'popularity'
+		}`
+	);
+	console.log(`Target track count: ${targetTrackCount}`);
+	console.log(`Actual selected tracks: ${selectedTracks.length}`);
+	console.log(
+		`Average popularity of selected tracks: ${(
+			selectedTracks.reduce((sum, t) => sum + (t.popularity || 0), 0) /
+			selectedTracks.length
+		).toFixed(1)}`
+	);
+
+	// All selected tracks with their selection reasons
+	console.log('\nSelected tracks:');
+	selectedTracks.forEach((track, index) => {
+		console.log(
+			`${index + 1}. "${track.name}" by ${
+				track.artists?.[0]?.name || 'Unknown'
+			} - Popularity: ${track.popularity || 0} | Has features: ${
+				track.features ? 'yes' : 'no'
+			}`
+		);
+	});
+	console.log('\n');
+
+	return {
+		message: 'AI playlist created successfully',
+		jobId: job.jobId,
+		playlist: {
+			id: playlist.id,
+			name: playlistTitle,
+			description: playlistDesc,
+			tracks: selectedTracks.map(formatTrackForResponse),
+			url: playlist.url,
+			aiAnalysis: promptAnalysis,
+			genresUsed: matchedGenres,
+		},
+		processingStats: buildProcessingStats(),
+		refinementData: {
+			promptAnalysis,
+			playlistId: playlist.id,
+		},
+	};
+}
 
 // Test endpoint to estimate processing time without creating a playlist
 router.post('/estimate-processing', async (req: Request, res: Response) => {
@@ -2196,27 +3502,12 @@ router.post('/estimate-processing', async (req: Request, res: Response) => {
 
 		if (sources.playlists && sources.playlists.length > 0) {
 			try {
-				const playlistsResponse = await fetch(
-					'https://api.spotify.com/v1/me/playlists?limit=50',
-					{
-						headers: { Authorization: `Bearer ${accessToken}` },
-					}
-				);
-
-				if (playlistsResponse.ok) {
-					const playlistsData = await playlistsResponse.json();
-					const playlists = playlistsData.items || [];
+				// Every page of the user's playlists, not just the first 50
+				const playlists = await fetchUserPlaylists(accessToken);
 
+				if (playlists.length > 0) {
 					// Create map of playlist ID to track count
-					playlists.forEach((playlist: any) => {
-						if (
-							playlist.id &&
-							playlist.tracks &&
-							playlist.tracks.total
-						) {
-							playlistSizes[playlist.id] = playlist.tracks.total;
-						}
-					});
+					playlistSizes = getPlaylistSizes(playlists);
 
 					// Return playlist information too for UI selection
 					const playlistInfo = playlists.map((playlist: any) => ({
@@ -2322,6 +3613,66 @@ router.post('/estimate-processing', async (req: Request, res: Response) => {
 	}
 });
 
+// Playlists checked for audio features when suggesting; the rest are ranked
+// out by name and description alone
+const MAX_SUGGESTION_CANDIDATES = 30;
+
+// Suggest the user's playlists that best fit a prompt
+router.post('/suggest-playlists', async (req: Request, res: Response) => {
+	try {
+		const { prompt, limit = 5 } = req.body;
+		if (!prompt || typeof prompt !== 'string' || !prompt.trim()) {
+			return res.status(400).json({ message: 'Prompt is required' });
+		}
+
+		const accessToken = (req as any).accessToken;
+		if (!accessToken) {
+			return res.status(401).json({ message: 'Authentication required' });
+		}
+
+		const { analysis } = await analyzePlaylistPrompt(prompt);
+		const playlists = await fetchUserPlaylists(accessToken);
+
+		// Best text matches first; among equals, the order Spotify lists them
+		const candidates = playlists
+			.filter((playlist) => playlist?.id)
+			.map((playlist, index) => ({
+				playlist,
+				index,
+				textScore: scorePlaylistText(playlist, analysis).score,
+			}))
+			.sort((a, b) => b.textScore - a.textScore || a.index - b.index)
+			.slice(0, MAX_SUGGESTION_CANDIDATES)
+			.map((candidate) => candidate.playlist);
+
+		const ranked = await rankPlaylistsByRelevance(
+			accessToken,
+			candidates,
+			analysis,
+			new ConcurrencyLimiter(
+				PROCESSING_CONFIGS.standard.maxConcurrentRequests
+			)
+		);
+
+		const maxSuggestions = Math.min(
+			20,
+			Math.max(1, parseInt(limit, 10) || 5)
+		);
+		return res.json({
+			suggestions: ranked
+				.filter((playlist) => playlist.score > 0)
+				.slice(0, maxSuggestions),
+			analysis: { genres: analysis.genres, moods: analysis.moods },
+		});
+	} catch (error: any) {
+		console.error('Error suggesting playlists:', error.message);
+		return res.status(500).json({
+			message: 'Failed to suggest playlists',
+			error: error.message,
+		});
+	}
+});
+
 // Helper function to format seconds into readable time
 function formatTime(seconds: number): string {
 	if (seconds < 60) {
@@ -4,6 +4,7 @@ import { isAuthenticated } from '../auth/spotify-auth';
 import User from '../models/User';
 import Playlist from '../models/Playlist';
 import Track from '../models/Track';
+import { fetchUserPlaylists } from '../services/user-playlists';
 
 const router = express.Router();
 
@@ -156,21 +157,17 @@ router.get('/playlists', async (req: Request, res: Response) => {
 				const userId = userProfile.body.id;
 				console.log('Got user profile with ID:', userId);
 
-				// Fetch the user's playlists with their specific ID and a proper limit
-				const userPlaylists = await spotifyApi.getUserPlaylists(
-					userId,
-					{ limit: 50 }
-				);
+				// Fetch every page of the user's playlists
+				const items = await fetchUserPlaylists(user.accessToken);
 
 				// Log success with count
-				const playlistCount = userPlaylists.body.items?.length || 0;
 				console.log(
 					'User playlists retrieved successfully:',
-					playlistCount
+					items.length
 				);
 
 				// Return the user's actual playlists
-				return res.json(userPlaylists.body);
+				return res.json({ items, total: items.length, userId });
 			} catch (apiError: any) {
 				// Handle session token errors...
 				console.error(
@@ -195,20 +192,16 @@ router.get('/playlists', async (req: Request, res: Response) => {
 				const userId = userProfile.body.id;
 				console.log('Got user profile with header token, ID:', userId);
 
-				// Fetch the user's playlists
-				const userPlaylists = await spotifyApi.getUserPlaylists(
-					userId,
-					{ limit: 50 }
-				);
+				// Fetch every page of the user's playlists
+				const items = await fetchUserPlaylists(accessToken);
 
 				// Log success
-				const playlistCount = userPlaylists.body.items?.length || 0;
 				console.log(
 					'User playlists retrieved successfully with header token:',
-					playlistCount
+					items.length
 				);
 
-				return res.json(userPlaylists.body);
+				return res.json({ items, total: items.length, userId });
 			} catch (authError: any) {
 				console.error(
 					'Error with Authorization header token:',
@@ -291,11 +284,13 @@ router.post('/playlists', async (req: Request, res: Response) => {
 		const playlist = await Playlist.create({
 			name,
 			userId: user._id,
+			spotifyUserId: user.spotifyId,
 			spotifyId: playlistId,
 			coverImage: playlistData.body.images[0]?.url || '',
 			description: description || '',
 			isAIGenerated: isAIGenerated || false,
 			tracksCount: tracks ? tracks.length : 0,
+			trackIds: tracks ? tracks.map((track: any) => track.id) : [],
 			duration: tracks
 				? tracks.reduce(
 						(total: number, track: any) =>
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioDecodeError, analyzeAudio, decodeWav } from './audio-analysis';
+
+const SAMPLE_RATE = 22050;
+
+// A 16-bit PCM WAV file holding the given interleaved samples
+function pcmWav(samples: number[], channels: number, sampleRate: number) {
+	const data = Buffer.alloc(samples.length * 2);
+	samples.forEach((sample, i) =>
+		data.writeInt16LE(Math.round(sample * 32767), i * 2)
+	);
+
+	const header = Buffer.alloc(44);
+	header.write('RIFF', 0, 'ascii');
+	header.writeUInt32LE(36 + data.length, 4);
+	header.write('WAVE', 8, 'ascii');
+	header.write('fmt ', 12, 'ascii');
+	header.writeUInt32LE(16, 16);
+	header.writeUInt16LE(1, 20); // PCM
+	header.writeUInt16LE(channels, 22);
+	header.writeUInt32LE(sampleRate, 24);
+	header.writeUInt32LE(sampleRate * channels * 2, 28);
+	header.writeUInt16LE(channels * 2, 32);
+	header.writeUInt16LE(16, 34);
+	header.write('data', 36, 'ascii');
+	header.writeUInt32LE(data.length, 40);
+	return Buffer.concat([header, data]);
+}
+
+function sine(frequency: number, seconds: number, amplitude = 0.5) {
+	const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+	for (let i = 0; i < samples.length; i++) {
+		samples[i] =
+			amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+	}
+	return samples;
+}
+
+// Short 1 kHz bursts on every beat, silence in between
+function clickTrack(bpm: number, seconds: number) {
+	const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+	const beat = (60 / bpm) * SAMPLE_RATE;
+	const clickLength = Math.round(0.02 * SAMPLE_RATE);
+	for (let start = 0; start < samples.length; start += beat) {
+		for (let i = 0; i < clickLength; i++) {
+			const position = Math.round(start) + i;
+			if (position >= samples.length) break;
+			samples[position] =
+				0.8 * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+		}
+	}
+	return samples;
+}
+
+describe('decodeWav', () => {
+	it('mixes channels down to mono', () => {
+		const audio = decodeWav(pcmWav([0.5, -0.5, 1, 0], 2, 8000));
+
+		assert.equal(audio.sampleRate, 8000);
+		assert.equal(audio.samples.length, 2);
+		assert.ok(Math.abs(audio.samples[0]) < 1e-4);
+		assert.ok(Math.abs(audio.samples[1] - 0.5) < 1e-4);
+	});
+
+	it('cuts the audio off at the maximum length', () => {
+		const audio = decodeWav(pcmWav(new Array(100).fill(0.1), 1, 10), 3);
+
+		assert.equal(audio.samples.length, 30);
+	});
+
+	it('rejects files that are not WAV', () => {
+		assert.throws(
+			() => decodeWav(Buffer.from('ID3 not a wave file')),
+			AudioDecodeError
+		);
+	});
+});
+
+describe('analyzeAudio', () => {
+	it('finds the tempo of a click track', () => {
+		const { tempo } = analyzeAudio({
+			samples: clickTrack(120, 20),
+			sampleRate: SAMPLE_RATE,
+		});
+
+		assert.ok(Math.abs(tempo - 120) < 3, `tempo ${tempo}`);
+	});
+
+	it('finds the key of a sine', () => {
+		// A4
+		const { key } = analyzeAudio({
+			samples: sine(440, 5),
+			sampleRate: SAMPLE_RATE,
+		});
+
+		assert.equal(key, 9);
+	});
+
+	it('keeps features in their ranges', () => {
+		for (const samples of [
+			sine(440, 5),
+			clickTrack(90, 10),
+			new Float32Array(SAMPLE_RATE),
+		]) {
+			const features = analyzeAudio({ samples, sampleRate: SAMPLE_RATE });
+
+			assert.ok(features.energy >= 0 && features.energy <= 1);
+			assert.ok(features.brightness >= 0 && features.brightness <= 1);
+			assert.ok(features.loudness >= -60 && features.loudness <= 0);
+			assert.ok(features.tempo >= 60 && features.tempo <= 200);
+			assert.ok([0, 1].includes(features.mode));
+		}
+	});
+
+	it('reads a loud sine as louder than a quiet one', () => {
+		const loud = analyzeAudio({
+			samples: sine(440, 5, 0.9),
+			sampleRate: SAMPLE_RATE,
+		});
+		const quiet = analyzeAudio({
+			samples: sine(440, 5, 0.05),
+			sampleRate: SAMPLE_RATE,
+		});
+
+		assert.ok(loud.loudness > quiet.loudness);
+		assert.ok(loud.energy > quiet.energy);
+	});
+
+	it('rejects audio too short to analyze', () => {
+		assert.throws(
+			() =>
+				analyzeAudio({
+					samples: new Float32Array(100),
+					sampleRate: SAMPLE_RATE,
+				}),
+			AudioDecodeError
+		);
+	});
+});
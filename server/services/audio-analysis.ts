@@ -0,0 +1,353 @@
+// Estimates audio features from raw audio, for tracks no other source has
+// features for. Everything works on mono samples; the estimates are rougher
+// than Spotify's but on the same scales.
+
+export interface DecodedAudio {
+	samples: Float32Array; // Mono, -1 to 1
+	sampleRate: number;
+}
+
+export interface AnalyzedFeatures {
+	tempo: number; // BPM
+	energy: number; // 0-1
+	key: number; // Pitch class, C = 0, like Spotify's key
+	mode: number; // 1 for major, 0 for minor
+	loudness: number; // dBFS, roughly -60 to 0 like Spotify's loudness
+	brightness: number; // Spectral centroid as a share of 5 kHz, 0-1
+}
+
+// Longer files are cut off; preview clips are 30 seconds
+export const MAX_ANALYSIS_SECONDS = 60;
+
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 200;
+
+// Krumhansl-Schmuckler key profiles, starting at the tonic
+const MAJOR_PROFILE = [
+	6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88,
+];
+const MINOR_PROFILE = [
+	6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17,
+];
+
+export class AudioDecodeError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'AudioDecodeError';
+	}
+}
+
+function clamp01(value: number): number {
+	return Math.min(1, Math.max(0, value));
+}
+
+// Decode a PCM or floating point WAV file, mixed down to mono
+export function decodeWav(
+	buffer: Buffer,
+	maxSeconds: number = MAX_ANALYSIS_SECONDS
+): DecodedAudio {
+	if (
+		buffer.length < 12 ||
+		buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+		buffer.toString('ascii', 8, 12) !== 'WAVE'
+	) {
+		throw new AudioDecodeError('Not a WAV file');
+	}
+
+	let format = 0;
+	let channels = 0;
+	let sampleRate = 0;
+	let bitsPerSample = 0;
+	let dataStart = -1;
+	let dataLength = 0;
+
+	for (let offset = 12; offset + 8 <= buffer.length; ) {
+		const chunkId = buffer.toString('ascii', offset, offset + 4);
+		const chunkSize = buffer.readUInt32LE(offset + 4);
+		const body = offset + 8;
+
+		if (chunkId === 'fmt ') {
+			format = buffer.readUInt16LE(body);
+			channels = buffer.readUInt16LE(body + 2);
+			sampleRate = buffer.readUInt32LE(body + 4);
+			bitsPerSample = buffer.readUInt16LE(body + 14);
+			// WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+			if (format === 0xfffe && chunkSize >= 26) {
+				format = buffer.readUInt16LE(body + 24);
+			}
+		} else if (chunkId === 'data') {
+			dataStart = body;
+			dataLength = Math.min(chunkSize, buffer.length - body);
+			break;
+		}
+
+		// Chunks are padded to an even size
+		offset = body + chunkSize + (chunkSize % 2);
+	}
+
+	const isFloat = format === 3;
+	if (
+		dataStart < 0 ||
+		channels === 0 ||
+		sampleRate === 0 ||
+		!(format === 1 || isFloat) ||
+		![8, 16, 24, 32, 64].includes(bitsPerSample) ||
+		(isFloat && bitsPerSample < 32)
+	) {
+		throw new AudioDecodeError('Unsupported WAV format');
+	}
+
+	const bytesPerSample = bitsPerSample / 8;
+	const frameCount = Math.min(
+		Math.floor(dataLength / (bytesPerSample * channels)),
+		Math.floor(maxSeconds * sampleRate)
+	);
+
+	const readSample = (position: number): number => {
+		if (isFloat) {
+			return bitsPerSample === 32
+				? buffer.readFloatLE(position)
+				: buffer.readDoubleLE(position);
+		}
+		switch (bitsPerSample) {
+			case 8:
+				return (buffer.readUInt8(position) - 128) / 128;
+			case 16:
+				return buffer.readInt16LE(position) / 32768;
+			case 24:
+				return buffer.readIntLE(position, 3) / 8388608;
+			default:
+				return buffer.readInt32LE(position) / 2147483648;
+		}
+	};
+
+	const samples = new Float32Array(frameCount);
+	for (let frame = 0; frame < frameCount; frame++) {
+		let sum = 0;
+		const position = dataStart + frame * bytesPerSample * channels;
+		for (let channel = 0; channel < channels; channel++) {
+			sum += readSample(position + channel * bytesPerSample);
+		}
+		samples[frame] = sum / channels;
+	}
+
+	return { samples, sampleRate };
+}
+
+// In-place radix-2 FFT; the length must be a power of two
+function fft(re: Float64Array, im: Float64Array) {
+	const n = re.length;
+
+	for (let i = 1, j = 0; i < n; i++) {
+		let bit = n >> 1;
+		for (; j & bit; bit >>= 1) {
+			j ^= bit;
+		}
+		j ^= bit;
+		if (i < j) {
+			[re[i], re[j]] = [re[j], re[i]];
+			[im[i], im[j]] = [im[j], im[i]];
+		}
+	}
+
+	for (let size = 2; size <= n; size <<= 1) {
+		const angle = (-2 * Math.PI) / size;
+		for (let start = 0; start < n; start += size) {
+			for (let k = 0; k < size / 2; k++) {
+				const cos = Math.cos(angle * k);
+				const sin = Math.sin(angle * k);
+				const a = start + k;
+				const b = a + size / 2;
+				const tRe = re[b] * cos - im[b] * sin;
+				const tIm = re[b] * sin + im[b] * cos;
+				re[b] = re[a] - tRe;
+				im[b] = im[a] - tIm;
+				re[a] += tRe;
+				im[a] += tIm;
+			}
+		}
+	}
+}
+
+function correlation(a: number[], b: number[]): number {
+	const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+	const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+	let numerator = 0;
+	let varianceA = 0;
+	let varianceB = 0;
+	for (let i = 0; i < a.length; i++) {
+		numerator += (a[i] - meanA) * (b[i] - meanB);
+		varianceA += (a[i] - meanA) ** 2;
+		varianceB += (b[i] - meanB) ** 2;
+	}
+	return varianceA > 0 && varianceB > 0
+		? numerator / Math.sqrt(varianceA * varianceB)
+		: 0;
+}
+
+// Tempo from the autocorrelation of the onset envelope, with a preference for
+// tempos near 120 BPM so half and double tempo don't win by accident
+function estimateTempo(onsets: number[], framesPerSecond: number): number {
+	const mean = onsets.reduce((sum, value) => sum + value, 0) / onsets.length;
+	const envelope = onsets.map((value) => value - mean);
+
+	// Lags rounded inwards, so the tempo stays within range
+	const minLag = Math.max(1, Math.ceil((60 / MAX_TEMPO) * framesPerSecond));
+	const maxLag = Math.min(
+		envelope.length - 1,
+		Math.floor((60 / MIN_TEMPO) * framesPerSecond)
+	);
+	const autocorrelation = (lag: number) => {
+		let sum = 0;
+		for (let i = 0; i + lag < envelope.length; i++) {
+			sum += envelope[i] * envelope[i + lag];
+		}
+		return sum / (envelope.length - lag);
+	};
+
+	let bestLag = 0;
+	let bestScore = -Infinity;
+	for (let lag = minLag; lag <= maxLag; lag++) {
+		const tempo = (60 * framesPerSecond) / lag;
+		const preference = Math.exp(-0.5 * Math.log2(tempo / 120) ** 2);
+		const score = autocorrelation(lag) * preference;
+		if (score > bestScore) {
+			bestScore = score;
+			bestLag = lag;
+		}
+	}
+	if (bestLag === 0) {
+		return 120;
+	}
+
+	// Whole frames are coarse at fast tempos, so interpolate between the
+	// neighbouring lags
+	const before = autocorrelation(bestLag - 1);
+	const peak = autocorrelation(bestLag);
+	const after =
+		bestLag + 1 < envelope.length ? autocorrelation(bestLag + 1) : peak;
+	const curvature = before - 2 * peak + after;
+	const offset =
+		curvature < 0
+			? Math.max(-0.5, Math.min(0.5, (0.5 * (before - after)) / curvature))
+			: 0;
+
+	const tempo = (60 * framesPerSecond) / (bestLag + offset);
+	return (
+		Math.round(Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, tempo)) * 10) / 10
+	);
+}
+
+// Best matching key profile over all 12 rotations of the chroma vector
+function estimateKey(chroma: number[]): { key: number; mode: number } {
+	let best = { key: 0, mode: 1, score: -Infinity };
+	for (let tonic = 0; tonic < 12; tonic++) {
+		const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+		const major = correlation(rotated, MAJOR_PROFILE);
+		const minor = correlation(rotated, MINOR_PROFILE);
+		if (major > best.score) best = { key: tonic, mode: 1, score: major };
+		if (minor > best.score) best = { key: tonic, mode: 0, score: minor };
+	}
+	return { key: best.key, mode: best.mode };
+}
+
+// Estimate tempo, energy, key, loudness and brightness from mono samples
+export function analyzeAudio(audio: DecodedAudio): AnalyzedFeatures {
+	const { samples, sampleRate } = audio;
+	const frameSize = sampleRate >= 32000 ? 2048 : 1024;
+	const hopSize = frameSize / 2;
+	if (samples.length < frameSize * 4) {
+		throw new AudioDecodeError('Audio is too short to analyze');
+	}
+
+	const window = new Float64Array(frameSize);
+	for (let i = 0; i < frameSize; i++) {
+		window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+	}
+
+	const bins = frameSize / 2 + 1;
+	const binHz = sampleRate / frameSize;
+	const re = new Float64Array(frameSize);
+	const im = new Float64Array(frameSize);
+	let previous = new Float64Array(bins);
+	const chroma = new Array(12).fill(0);
+	const onsets: number[] = [];
+	let centroidSum = 0;
+	let centroidFrames = 0;
+
+	for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+		for (let i = 0; i < frameSize; i++) {
+			re[i] = samples[start + i] * window[i];
+			im[i] = 0;
+		}
+		fft(re, im);
+
+		const current = new Float64Array(bins);
+		let flux = 0;
+		let magnitudeSum = 0;
+		let weightedSum = 0;
+		for (let bin = 1; bin < bins; bin++) {
+			const magnitude = Math.hypot(re[bin], im[bin]);
+			const frequency = bin * binHz;
+
+			// Log compression keeps quiet onsets visible next to loud ones
+			current[bin] = Math.log1p(100 * magnitude);
+			flux += Math.max(0, current[bin] - previous[bin]);
+			magnitudeSum += magnitude;
+			weightedSum += magnitude * frequency;
+
+			if (frequency >= 55 && frequency <= 2000) {
+				const pitch = Math.round(12 * Math.log2(frequency / 440) + 69);
+				chroma[((pitch % 12) + 12) % 12] += magnitude;
+			}
+		}
+
+		onsets.push(flux);
+		if (magnitudeSum > 0) {
+			centroidSum += weightedSum / magnitudeSum;
+			centroidFrames++;
+		}
+		previous = current;
+	}
+
+	let squareSum = 0;
+	for (let i = 0; i < samples.length; i++) {
+		squareSum += samples[i] * samples[i];
+	}
+	const rms = Math.sqrt(squareSum / samples.length);
+	const loudness = Math.max(-60, 20 * Math.log10(rms || 1e-6));
+
+	const centroid = centroidFrames > 0 ? centroidSum / centroidFrames : 0;
+	const brightness = clamp01(centroid / 5000);
+
+	// Onsets per second: frames whose flux stands out from the average
+	const meanFlux =
+		onsets.reduce((sum, value) => sum + value, 0) / onsets.length;
+	const deviation = Math.sqrt(
+		onsets.reduce((sum, value) => sum + (value - meanFlux) ** 2, 0) /
+			onsets.length
+	);
+	const framesPerSecond = sampleRate / hopSize;
+	const onsetCount = onsets.filter(
+		(value, i) =>
+			value > meanFlux + deviation &&
+			value >= (onsets[i - 1] ?? 0) &&
+			value >= (onsets[i + 1] ?? 0)
+	).length;
+	const onsetRate = onsetCount / (onsets.length / framesPerSecond);
+
+	// Loud, busy and bright audio reads as energetic
+	const energy = clamp01(
+		0.5 * clamp01((loudness + 30) / 25) +
+			0.25 * clamp01(onsetRate / 8) +
+			0.25 * brightness
+	);
+
+	return {
+		tempo: estimateTempo(onsets, framesPerSecond),
+		energy: Math.round(energy * 1000) / 1000,
+		...estimateKey(chroma),
+		loudness: Math.round(loudness * 10) / 10,
+		brightness: Math.round(brightness * 1000) / 1000,
+	};
+}
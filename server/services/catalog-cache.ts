@@ -0,0 +1,105 @@
+import CatalogCache, { CatalogEntryKind } from '../models/CatalogCache';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How long each kind of entry stays fresh. Audio features never change for a
+// track ID; artist genres and track metadata (popularity) drift slowly.
+const CATALOG_TTL: Record<CatalogEntryKind, number> = {
+	audio_features: 90 * DAY,
+	artist: 7 * DAY,
+	track: 30 * DAY,
+	// Keyed on the snapshot, so an edited playlist simply misses the cache
+	playlist_tracks: 30 * DAY,
+	// LLM estimates for tracks no other provider had features for
+	estimated_features: 90 * DAY,
+};
+
+// "Spotify has nothing for this ID" is cached briefly, in case it's temporary
+const MISSING_ENTRY_TTL = 1 * DAY;
+
+// Hits and misses of one lookup, reported in processingStats
+export interface CacheLookupStats {
+	hits: number;
+	misses: number;
+	hitRate: number; // 0-1
+}
+
+export function toCacheLookupStats(
+	hits: number,
+	misses: number
+): CacheLookupStats {
+	const total = hits + misses;
+	return {
+		hits,
+		misses,
+		hitRate: total > 0 ? Math.round((hits / total) * 100) / 100 : 0,
+	};
+}
+
+// Look up cached entries by Spotify ID. IDs that are missing from the result
+// are cache misses; a null value is a cached "nothing found".
+export async function readCatalog(
+	kind: CatalogEntryKind,
+	spotifyIds: string[]
+): Promise<Map<string, any>> {
+	const entries = new Map<string, any>();
+	const uniqueIds = Array.from(new Set(spotifyIds.filter(Boolean)));
+	if (uniqueIds.length === 0) {
+		return entries;
+	}
+
+	try {
+		const docs = await CatalogCache.find({
+			kind,
+			spotifyId: { $in: uniqueIds },
+			// The TTL monitor only runs every minute
+			expiresAt: { $gt: new Date() },
+		})
+			.select('spotifyId data')
+			.lean();
+
+		docs.forEach((doc) => entries.set(doc.spotifyId, doc.data ?? null));
+	} catch (error: any) {
+		console.error(`Failed to read ${kind} cache:`, error.message);
+	}
+
+	return entries;
+}
+
+// Store entries, replacing any existing ones. Cache failures are logged and
+// otherwise ignored; the pipeline works without the cache.
+export async function writeCatalog(
+	kind: CatalogEntryKind,
+	entries: Array<{ id: string; data: any }>
+): Promise<void> {
+	const valid = entries.filter((entry) => entry.id);
+	if (valid.length === 0) {
+		return;
+	}
+
+	const now = Date.now();
+	try {
+		await CatalogCache.bulkWrite(
+			valid.map((entry) => ({
+				updateOne: {
+					filter: { kind, spotifyId: entry.id },
+					update: {
+						$set: {
+							data: entry.data ?? null,
+							expiresAt: new Date(
+								now +
+									(entry.data == null
+										? MISSING_ENTRY_TTL
+										: CATALOG_TTL[kind])
+							),
+						},
+					},
+					upsert: true,
+				},
+			})),
+			{ ordered: false }
+		);
+	} catch (error: any) {
+		console.error(`Failed to write ${kind} cache:`, error.message);
+	}
+}
@@ -0,0 +1,105 @@
+import { Exclusions } from './prompt-analysis';
+
+// A track the prompt ruled out, listed in the response for auditing
+export interface ExcludedTrack {
+	id: string;
+	name: string;
+	artist: string;
+	reason: string;
+}
+
+// Albums recorded live, e.g. "Live at Wembley"
+const LIVE_ALBUM = /^live (at|from|in|on)\b/i;
+
+// Lowercase words separated by single spaces, so "Hip-Hop" matches "hip hop"
+function normalize(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[\s\-_.,:;!?'"’()[\]{}/+]+/g, ' ')
+		.trim();
+}
+
+// Whole-word match of a phrase; a plural in the phrase also matches the
+// singular ("remixes" matches "Remix")
+function containsPhrase(text: string, phrase: string): boolean {
+	const haystack = ` ${normalize(text)} `;
+	const needle = normalize(phrase);
+	if (!needle) {
+		return false;
+	}
+	const singular = needle.replace(/([^s])e?s$/, '$1');
+	return (
+		haystack.includes(` ${needle} `) || haystack.includes(` ${singular} `)
+	);
+}
+
+// The version part of a title: "Song - Live at Wembley", "Song (Acoustic)",
+// "Song [Remix]"
+function versionAnnotations(title: string): string[] {
+	return [
+		...title.split(/\s+-\s+/).slice(1),
+		...(title.match(/[([][^)\]]*[)\]]/g) || []),
+	];
+}
+
+// Why the prompt rules a track out, or null if it doesn't
+export function findExclusion(
+	track: any,
+	exclusions: Exclusions
+): string | null {
+	if (exclusions.explicit && track.explicit) {
+		return 'explicit';
+	}
+
+	const artist = (track.artists || []).find((a: any) =>
+		exclusions.artists.some(
+			(name) => normalize(name) === normalize(a.name || '')
+		)
+	);
+	if (artist) {
+		return `artist: ${artist.name}`;
+	}
+
+	const trackGenres: string[] = track.extractedGenres || [];
+	for (const genre of exclusions.genres) {
+		const match = trackGenres.find((g) => containsPhrase(g, genre));
+		if (match) {
+			return `genre: ${match}`;
+		}
+	}
+
+	const albumName = track.album?.name || '';
+	const annotations = [
+		...versionAnnotations(track.name || ''),
+		...versionAnnotations(albumName),
+		...(LIVE_ALBUM.test(albumName) ? ['live'] : []),
+	].join(' ');
+	const keyword = exclusions.title_keywords.find((k) =>
+		containsPhrase(annotations, k)
+	);
+	return keyword ? `title: ${keyword}` : null;
+}
+
+// Split tracks into the ones the prompt allows and the ones it rules out
+export function applyExclusions(
+	tracks: any[],
+	exclusions: Exclusions
+): { tracks: any[]; excluded: ExcludedTrack[] } {
+	const allowed: any[] = [];
+	const excluded: ExcludedTrack[] = [];
+
+	for (const track of tracks) {
+		const reason = findExclusion(track, exclusions);
+		if (!reason) {
+			allowed.push(track);
+			continue;
+		}
+		excluded.push({
+			id: track.id,
+			name: track.name,
+			artist: (track.artists || []).map((a: any) => a.name).join(', '),
+			reason,
+		});
+	}
+	return { tracks: allowed, excluded };
+}
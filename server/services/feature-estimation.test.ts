@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFeatureEstimates } from './feature-estimation';
+
+describe('parseFeatureEstimates', () => {
+	it('returns null for a response it cannot parse', () => {
+		assert.equal(parseFeatureEstimates('not json', ['a']), null);
+		assert.equal(parseFeatureEstimates('{"tracks": 3}', ['a']), null);
+	});
+
+	it('leaves out tracks the model did not estimate', () => {
+		const estimates = parseFeatureEstimates(
+			JSON.stringify({
+				tracks: [
+					{ id: 'a', energy: { value: 1.4, confidence: 0.8 } },
+					{ id: 'x', energy: { value: 0.5, confidence: 0.8 } },
+				],
+			}),
+			['a', 'b']
+		);
+
+		assert.deepEqual(estimates, [
+			{ id: 'a', features: { energy: 1 }, confidence: { energy: 0.8 } },
+		]);
+	});
+});
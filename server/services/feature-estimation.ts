@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import {
+	AudioFeature,
+	AUDIO_FEATURES,
+	AUDIO_FEATURE_BOUNDS,
+} from './prompt-analysis';
+
+// What the model is told about a track when estimating its audio features
+export interface TrackDescription {
+	id: string;
+	title: string;
+	artist: string;
+	album?: string;
+	year?: string;
+}
+
+// Estimated values on Spotify's scales, with the model's confidence in each
+// one from 0 (a guess) to 1 (sure)
+export interface TrackFeatureEstimate {
+	id: string;
+	features: Partial<Record<AudioFeature, number>>;
+	confidence: Partial<Record<AudioFeature, number>>;
+}
+
+export const FEATURE_ESTIMATION_PROMPT = `You are a music expert who knows how recorded songs sound. For each track you are given, estimate its Spotify audio features from what you know about the song, the artist and the era.
+
+Output a JSON object { "tracks": [...] } with one item per track:
+{ "id": the track's id, unchanged, and for each of energy, valence, danceability, acousticness, instrumentalness and tempo an object { "value": number, "confidence": number } }
+
+- energy, valence, danceability, acousticness and instrumentalness are 0.0 to 1.0, on the same scales as Spotify's audio features
+- tempo is in BPM
+- confidence is 0.0 to 1.0: close to 1 only when you know the song well, low when you are guessing from the artist or genre
+- Leave out a feature you can't estimate at all, and leave out tracks you know nothing about`;
+
+const estimateSchema = z.object({
+	value: z.coerce.number().finite(),
+	confidence: z.coerce.number().finite(),
+});
+
+const trackEstimateSchema = z
+	.object({ id: z.string() })
+	.catchall(z.unknown());
+
+const estimatesSchema = z.object({
+	tracks: z.array(trackEstimateSchema).default([]),
+});
+
+function clamp(value: number, [min, max]: [number, number]): number {
+	return Math.min(max, Math.max(min, value));
+}
+
+// Parse the model's estimates, keeping only requested tracks and the values
+// that are valid. Out of range values are clamped. Null when the response
+// isn't JSON in the expected shape, as opposed to leaving tracks out.
+export function parseFeatureEstimates(
+	raw: string,
+	requestedIds: string[]
+): TrackFeatureEstimate[] | null {
+	let json: unknown;
+	try {
+		json = JSON.parse(raw);
+	} catch (error) {
+		return null;
+	}
+
+	const parsed = estimatesSchema.safeParse(json);
+	if (!parsed.success) {
+		return null;
+	}
+
+	const requested = new Set(requestedIds);
+	const estimates: TrackFeatureEstimate[] = [];
+	for (const track of parsed.data.tracks) {
+		if (!requested.has(track.id)) continue;
+
+		const estimate: TrackFeatureEstimate = {
+			id: track.id,
+			features: {},
+			confidence: {},
+		};
+		for (const feature of AUDIO_FEATURES) {
+			const result = estimateSchema.safeParse(track[feature]);
+			if (!result.success) continue;
+			estimate.features[feature] = clamp(
+				result.data.value,
+				AUDIO_FEATURE_BOUNDS[feature]
+			);
+			estimate.confidence[feature] = clamp(result.data.confidence, [0, 1]);
+		}
+
+		if (Object.keys(estimate.features).length > 0) {
+			requested.delete(track.id);
+			estimates.push(estimate);
+		}
+	}
+	return estimates;
+}
+
+// Title, artist, album and release year of a (slimmed) track
+export function describeTrack(track: any): TrackDescription {
+	const year = track.album?.release_date?.substring(0, 4);
+	return {
+		id: track.id,
+		title: track.name || '',
+		artist: (track.artists || [])
+			.map((artist: any) => artist.name)
+			.filter(Boolean)
+			.join(', '),
+		...(track.album?.name ? { album: track.album.name } : {}),
+		...(year ? { year } : {}),
+	};
+}
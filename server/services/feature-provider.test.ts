@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	FeatureLookupContext,
+	FeatureLookupResult,
+	FeatureProvider,
+	FeatureProviderName,
+	lookupFeatures,
+} from './feature-provider';
+
+const context: FeatureLookupContext = {
+	accessToken: 'token',
+	throwIfCancelled: () => {},
+};
+
+// Provider answering from fixed features, with an optional cache
+function fakeProvider(
+	name: FeatureProviderName,
+	known: Record<string, number>,
+	cached?: string[]
+): FeatureProvider {
+	return {
+		name,
+		async getFeatures(tracks: any[]): Promise<FeatureLookupResult> {
+			const features = new Map<string, Record<string, any>>();
+			for (const track of tracks) {
+				if (known[track.id] !== undefined) {
+					features.set(track.id, { energy: known[track.id] });
+				}
+			}
+			return {
+				features,
+				...(cached ? { cachedIds: new Set(cached) } : {}),
+			};
+		},
+	};
+}
+
+describe('lookupFeatures', () => {
+	it('takes each track from the first provider that knows it', async () => {
+		const result = await lookupFeatures(
+			[{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+			[
+				fakeProvider('spotify', { a: 0.1 }),
+				fakeProvider('dataset', { a: 0.9, b: 0.2 }),
+			],
+			context
+		);
+
+		assert.equal(result.features.get('a')?.provider, 'spotify');
+		assert.equal(result.features.get('a')?.features.energy, 0.1);
+		assert.equal(result.features.get('b')?.provider, 'dataset');
+		assert.equal(result.features.has('c'), false);
+	});
+
+	it('counts each track once towards the cache stats', async () => {
+		// a: cached in spotify. b: missed in spotify, cached in estimated.
+		// c: missed everywhere. d: answered by the dataset, which has no cache.
+		const result = await lookupFeatures(
+			[{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }],
+			[
+				fakeProvider('spotify', { a: 0.1 }, ['a']),
+				fakeProvider('dataset', { d: 0.4 }),
+				fakeProvider('estimated', { b: 0.5 }, ['b']),
+			],
+			context
+		);
+
+		assert.equal(result.cacheHits, 2);
+		assert.equal(result.cacheMisses, 1);
+	});
+
+	it('skips providers the run has marked unavailable', async () => {
+		const unavailable = new Set<FeatureProviderName>();
+		let spotifyCalls = 0;
+		const spotify: FeatureProvider = {
+			name: 'spotify',
+			async getFeatures(): Promise<FeatureLookupResult> {
+				spotifyCalls++;
+				unavailable.add('spotify');
+				return { features: new Map() };
+			},
+		};
+		const providers = [spotify, fakeProvider('dataset', { a: 0.3, b: 0.6 })];
+		const runContext = { ...context, unavailable };
+
+		const first = await lookupFeatures([{ id: 'a' }], providers, runContext);
+		const second = await lookupFeatures([{ id: 'b' }], providers, runContext);
+
+		assert.equal(spotifyCalls, 1);
+		assert.equal(first.features.get('a')?.provider, 'dataset');
+		assert.equal(second.features.get('b')?.provider, 'dataset');
+	});
+});
@@ -0,0 +1,824 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import {
+	asyncBufferFromFile,
+	parquetMetadataAsync,
+	parquetReadObjects,
+} from 'hyparquet';
+import { readCatalog, writeCatalog } from './catalog-cache';
+import { SpotifyApiError, spotifyFetch } from './spotify-client';
+import {
+	DecodedAudio,
+	MAX_ANALYSIS_SECONDS,
+	analyzeAudio,
+	decodeWav,
+} from './audio-analysis';
+import { describeTrack } from './feature-estimation';
+import { LLMProvider, getLLMProvider } from './llm-provider';
+
+export type FeatureProviderName = 'spotify' | 'dataset' | 'local' | 'estimated';
+
+export const FEATURE_PROVIDER_NAMES: FeatureProviderName[] = [
+	'spotify',
+	'dataset',
+	'local',
+	'estimated',
+];
+
+export interface FeatureLookupContext {
+	accessToken: string;
+	throwIfCancelled: () => void;
+	// Providers that failed in a way retrying won't fix, shared by the lookups
+	// of one run so the rest of the run skips them
+	unavailable?: Set<FeatureProviderName>;
+	// Model requests the estimated provider may still make in this run;
+	// unlimited when unset
+	estimationBudget?: { batches: number };
+}
+
+// Features a provider found, keyed by track ID. Tracks it has nothing for are
+// left out so the next provider can try them.
+export interface FeatureLookupResult {
+	features: Map<string, Record<string, any>>;
+	// Set by providers with a cache: the tracks it answered from the cache,
+	// including cached "nothing found" entries
+	cachedIds?: Set<string>;
+}
+
+// Anything that can supply audio features for tracks
+export interface FeatureProvider {
+	readonly name: FeatureProviderName;
+	getFeatures(
+		tracks: any[],
+		context: FeatureLookupContext
+	): Promise<FeatureLookupResult>;
+}
+
+// Features for one track and the provider that supplied them
+export interface ProvidedFeatures {
+	features: Record<string, any>;
+	provider: FeatureProviderName;
+}
+
+const SPOTIFY_BATCH_SIZE = 50;
+
+// Responses meaning the app can't use /audio-features at all, so asking for
+// each track on its own would only fail the same way
+const ENDPOINT_UNAVAILABLE_STATUSES = [401, 403, 404];
+
+// Request audio features for up to 50 tracks. Successful lookups, including
+// Spotify having no features for a track, are written to the catalog cache.
+// Throws a SpotifyApiError when the endpoint is unavailable.
+async function fetchAudioFeatureBatch(
+	accessToken: string,
+	trackBatch: any[]
+): Promise<Map<string, any>> {
+	const features = new Map<string, any>();
+	const trackIds = trackBatch.map((track) => track.id).join(',');
+
+	const featuresResponse = await spotifyFetch(
+		accessToken,
+		`/audio-features?ids=${trackIds}`
+	);
+
+	if (featuresResponse.ok) {
+		const featuresData = await featuresResponse.json();
+
+		if (
+			!featuresData.audio_features ||
+			!Array.isArray(featuresData.audio_features)
+		) {
+			console.error('Invalid audio features response format:', featuresData);
+			return features;
+		}
+
+		featuresData.audio_features.forEach((trackFeatures: any) => {
+			if (trackFeatures) {
+				features.set(trackFeatures.id, trackFeatures);
+			}
+		});
+		console.log(
+			`Received ${features.size} valid audio features out of ${trackBatch.length} requested`
+		);
+
+		// A null in a successful response means Spotify has no features
+		await writeCatalog(
+			'audio_features',
+			trackBatch.map((track) => ({
+				id: track.id,
+				data: features.get(track.id) || null,
+			}))
+		);
+		return features;
+	}
+
+	// Log detailed error information
+	console.error(
+		`Failed to get audio features. Status: ${featuresResponse.status} ${featuresResponse.statusText}`
+	);
+	try {
+		const errorData = await featuresResponse.json();
+		console.error('Error details:', JSON.stringify(errorData));
+	} catch (e) {
+		console.error('Could not parse error response');
+	}
+
+	if (ENDPOINT_UNAVAILABLE_STATUSES.includes(featuresResponse.status)) {
+		throw new SpotifyApiError(
+			featuresResponse.status,
+			`Audio features are unavailable: ${featuresResponse.statusText}`
+		);
+	}
+
+	// Try an alternative approach - get features one by one
+	console.log(
+		'Trying alternative approach to get audio features one by one...'
+	);
+	for (const track of trackBatch) {
+		try {
+			const singleTrackResponse = await spotifyFetch(
+				accessToken,
+				`/audio-features/${track.id}`
+			);
+
+			if (singleTrackResponse.ok) {
+				const trackFeature = await singleTrackResponse.json();
+				features.set(track.id, trackFeature);
+				await writeCatalog('audio_features', [
+					{ id: track.id, data: trackFeature },
+				]);
+				console.log(`Successfully got features for track: ${track.name}`);
+			} else {
+				console.log(`Failed to get features for track: ${track.name}`);
+			}
+		} catch (singleTrackError) {
+			console.error(
+				`Error getting features for track ${track.id}:`,
+				singleTrackError
+			);
+		}
+	}
+	return features;
+}
+
+// Spotify's /audio-features endpoint. Features in the catalog cache are
+// reused; only cache misses are requested, in batches of 50. When the
+// endpoint turns out to be unavailable the provider is marked unavailable for
+// the run and its remaining tracks go to the next provider.
+export class SpotifyFeatureProvider implements FeatureProvider {
+	readonly name = 'spotify';
+
+	async getFeatures(
+		tracks: any[],
+		context: FeatureLookupContext
+	): Promise<FeatureLookupResult> {
+		const cached = await readCatalog(
+			'audio_features',
+			tracks.map((track) => track.id)
+		);
+		const uncachedTracks = tracks.filter((track) => !cached.has(track.id));
+
+		const features = new Map<string, any>();
+		cached.forEach((trackFeatures, id) => {
+			if (trackFeatures) {
+				features.set(id, trackFeatures);
+			}
+		});
+
+		for (let i = 0; i < uncachedTracks.length; i += SPOTIFY_BATCH_SIZE) {
+			context.throwIfCancelled();
+
+			const trackBatch = uncachedTracks.slice(i, i + SPOTIFY_BATCH_SIZE);
+			try {
+				const fetched = await fetchAudioFeatureBatch(
+					context.accessToken,
+					trackBatch
+				);
+				fetched.forEach((trackFeatures, id) =>
+					features.set(id, trackFeatures)
+				);
+			} catch (error) {
+				if (
+					error instanceof SpotifyApiError &&
+					ENDPOINT_UNAVAILABLE_STATUSES.includes(error.status)
+				) {
+					console.warn(
+						`${error.message}, skipping Spotify audio features for the rest of this run`
+					);
+					context.unavailable?.add(this.name);
+					break;
+				}
+				console.error(
+					'Failed to get audio features from Spotify:',
+					error instanceof Error ? error.message : String(error)
+				);
+			}
+		}
+
+		return { features, cachedIds: new Set(cached.keys()) };
+	}
+}
+
+// Columns the dataset provider reads, besides the track ID and ISRC
+const DATASET_FEATURE_COLUMNS = [
+	'danceability',
+	'energy',
+	'key',
+	'loudness',
+	'mode',
+	'speechiness',
+	'acousticness',
+	'instrumentalness',
+	'liveness',
+	'valence',
+	'tempo',
+	'time_signature',
+];
+const DATASET_ID_COLUMNS = ['track_id', 'id', 'spotify_id', 'uri'];
+const DATASET_ISRC_COLUMN = 'isrc';
+const PARQUET_CHUNK_ROWS = 50000;
+
+// Imported rows, stored as one flat array of feature values with NaN for
+// missing values so a large dataset stays compact
+interface DatasetIndex {
+	values: Float64Array;
+	rows: Map<string, number>; // Track ID or "isrc:<ISRC>" to row number
+}
+
+// Split CSV text into rows as chunks arrive. Quoted fields may contain commas,
+// quotes ("") and line breaks.
+async function readCsvRows(
+	filePath: string,
+	onRow: (fields: string[]) => void
+): Promise<void> {
+	let fields: string[] = [];
+	let field = '';
+	let quoted = false;
+	let afterQuote = false;
+
+	const endRow = () => {
+		fields.push(field);
+		if (fields.length > 1 || fields[0] !== '') {
+			onRow(fields);
+		}
+		fields = [];
+		field = '';
+	};
+
+	const stream = createReadStream(filePath, { encoding: 'utf8' });
+	for await (const chunk of stream) {
+		for (const char of chunk as string) {
+			if (quoted) {
+				if (char === '"') {
+					quoted = false;
+					afterQuote = true;
+				} else {
+					field += char;
+				}
+				continue;
+			}
+
+			if (char === '"') {
+				// A doubled quote inside a quoted field is a literal quote
+				if (afterQuote) field += '"';
+				quoted = true;
+			} else if (char === ',') {
+				fields.push(field);
+				field = '';
+			} else if (char === '\n') {
+				endRow();
+			} else if (char !== '\r') {
+				field += char;
+			}
+			afterQuote = false;
+		}
+	}
+	if (field !== '' || fields.length > 0) {
+		endRow();
+	}
+}
+
+// Features from an imported CSV or Parquet file, matched by Spotify track ID
+// or ISRC. The file is loaded on first use and again when it changes.
+export class DatasetFeatureProvider implements FeatureProvider {
+	readonly name = 'dataset';
+	private index: DatasetIndex | null = null;
+	private loadedAt = 0; // File modification time of the loaded index
+	private loading: Promise<DatasetIndex | null> | null = null;
+
+	constructor(private filePath: string) {}
+
+	async getFeatures(tracks: any[]): Promise<FeatureLookupResult> {
+		const features = new Map<string, Record<string, any>>();
+		const index = await this.getIndex();
+		if (!index) {
+			return { features };
+		}
+
+		for (const track of tracks) {
+			let row = index.rows.get(track.id);
+			if (row === undefined && track.isrc) {
+				row = index.rows.get(`isrc:${track.isrc.toUpperCase()}`);
+			}
+			if (row === undefined) continue;
+
+			const trackFeatures: Record<string, any> = { id: track.id };
+			DATASET_FEATURE_COLUMNS.forEach((column, i) => {
+				const value =
+					index.values[row! * DATASET_FEATURE_COLUMNS.length + i];
+				if (!isNaN(value)) {
+					trackFeatures[column] = value;
+				}
+			});
+			features.set(track.id, trackFeatures);
+		}
+
+		return { features };
+	}
+
+	private async getIndex(): Promise<DatasetIndex | null> {
+		let modifiedAt: number;
+		try {
+			modifiedAt = (await fs.stat(this.filePath)).mtimeMs;
+		} catch (error: any) {
+			console.error(
+				`Feature dataset ${this.filePath} is not readable:`,
+				error.message
+			);
+			return null;
+		}
+
+		if (this.index && this.loadedAt === modifiedAt) {
+			return this.index;
+		}
+		if (!this.loading) {
+			this.loading = this.load()
+				.then((index) => {
+					this.index = index;
+					this.loadedAt = modifiedAt;
+					return index;
+				})
+				.catch((error) => {
+					console.error(
+						`Failed to load feature dataset ${this.filePath}:`,
+						error.message
+					);
+					return this.index;
+				})
+				.finally(() => {
+					this.loading = null;
+				});
+		}
+		return this.loading;
+	}
+
+	private async load(): Promise<DatasetIndex> {
+		const columns = DATASET_FEATURE_COLUMNS.length;
+		let values = new Float64Array(columns * 1024);
+		const rows = new Map<string, number>();
+		let rowCount = 0;
+
+		const addRow = (record: Record<string, any>) => {
+			const idColumn = DATASET_ID_COLUMNS.find((column) => record[column]);
+			const id = idColumn
+				? String(record[idColumn]).replace(/^spotify:track:/, '')
+				: '';
+			const isrc = record[DATASET_ISRC_COLUMN]
+				? String(record[DATASET_ISRC_COLUMN]).trim().toUpperCase()
+				: '';
+			if (!id && !isrc) return;
+
+			if ((rowCount + 1) * columns > values.length) {
+				const grown = new Float64Array(values.length * 2);
+				grown.set(values);
+				values = grown;
+			}
+			DATASET_FEATURE_COLUMNS.forEach((column, i) => {
+				const raw = record[column];
+				values[rowCount * columns + i] =
+					raw === undefined || raw === null || raw === ''
+						? NaN
+						: Number(raw);
+			});
+
+			if (id) rows.set(id, rowCount);
+			if (isrc) rows.set(`isrc:${isrc}`, rowCount);
+			rowCount++;
+		};
+
+		if (path.extname(this.filePath).toLowerCase() === '.parquet') {
+			const file = await asyncBufferFromFile(this.filePath);
+			const metadata = await parquetMetadataAsync(file);
+			const available = new Set(
+				metadata.schema.map((column) => column.name)
+			);
+			const wanted = [
+				...DATASET_ID_COLUMNS,
+				DATASET_ISRC_COLUMN,
+				...DATASET_FEATURE_COLUMNS,
+			].filter((column) => available.has(column));
+			const totalRows = Number(metadata.num_rows);
+
+			for (let start = 0; start < totalRows; start += PARQUET_CHUNK_ROWS) {
+				const records = await parquetReadObjects({
+					file,
+					metadata,
+					columns: wanted,
+					rowStart: start,
+					rowEnd: Math.min(totalRows, start + PARQUET_CHUNK_ROWS),
+				});
+				records.forEach(addRow);
+			}
+		} else {
+			let header: string[] | null = null;
+			await readCsvRows(this.filePath, (fields) => {
+				if (!header) {
+					header = fields.map((name) => name.trim().toLowerCase());
+					return;
+				}
+				const record: Record<string, string> = {};
+				header.forEach((name, i) => {
+					record[name] = fields[i];
+				});
+				addRow(record);
+			});
+		}
+
+		console.log(
+			`Loaded audio features for ${rowCount} tracks from ${this.filePath}`
+		);
+		return { values: values.slice(0, rowCount * columns), rows };
+	}
+}
+
+const WAV_EXTENSION = '.wav';
+// Decoded with ffmpeg, when it is configured
+const OTHER_AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.ogg', '.flac'];
+// ffmpeg output format for analysis
+const DECODE_SAMPLE_RATE = 22050;
+// Analyses kept in memory; the oldest are dropped first
+const MAX_KEPT_ANALYSES = 2000;
+
+// Decode any audio file ffmpeg understands to mono 32-bit float samples
+function decodeWithFfmpeg(
+	ffmpegPath: string,
+	filePath: string
+): Promise<DecodedAudio> {
+	return new Promise((resolve, reject) => {
+		const ffmpeg = spawn(ffmpegPath, [
+			'-v',
+			'error',
+			'-t',
+			String(MAX_ANALYSIS_SECONDS),
+			'-i',
+			filePath,
+			'-ac',
+			'1',
+			'-ar',
+			String(DECODE_SAMPLE_RATE),
+			'-f',
+			'f32le',
+			'pipe:1',
+		]);
+		const chunks: Buffer[] = [];
+		let errorOutput = '';
+
+		ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+		ffmpeg.stderr.on('data', (chunk: Buffer) => {
+			errorOutput += chunk.toString();
+		});
+		ffmpeg.on('error', reject);
+		ffmpeg.on('close', (code) => {
+			if (code !== 0) {
+				reject(
+					new Error(`ffmpeg exited with ${code}: ${errorOutput.trim()}`)
+				);
+				return;
+			}
+			const data = Buffer.concat(chunks);
+			const samples = new Float32Array(Math.floor(data.length / 4));
+			for (let i = 0; i < samples.length; i++) {
+				samples[i] = data.readFloatLE(i * 4);
+			}
+			resolve({ samples, sampleRate: DECODE_SAMPLE_RATE });
+		});
+	});
+}
+
+// Analyzes audio files and preview clips placed in a directory, named after
+// the track's Spotify ID or ISRC (e.g. 4uLU6hMCjMI75M1A2tKUQC.wav). WAV files
+// are decoded directly; other formats need FFMPEG_PATH. Results for the most
+// recently analyzed files are kept in memory until the file changes.
+export class LocalAudioFeatureProvider implements FeatureProvider {
+	readonly name = 'local';
+	private analyses = new Map<string, Record<string, any> | null>();
+
+	constructor(
+		private audioDir: string,
+		private ffmpegPath?: string
+	) {}
+
+	async getFeatures(
+		tracks: any[],
+		context: FeatureLookupContext
+	): Promise<FeatureLookupResult> {
+		const features = new Map<string, Record<string, any>>();
+		const files = await this.listAudioFiles();
+		if (files.size === 0) {
+			return { features };
+		}
+
+		// Analysis is CPU bound, so files are analyzed one at a time
+		for (const track of tracks) {
+			const file =
+				files.get(track.id) ||
+				(track.isrc ? files.get(track.isrc.toUpperCase()) : undefined);
+			if (!file) continue;
+
+			context.throwIfCancelled();
+			const analysis = await this.analyzeFile(file);
+			if (analysis) {
+				features.set(track.id, { id: track.id, ...analysis });
+			}
+		}
+
+		return { features };
+	}
+
+	// Audio files by name without the extension
+	private async listAudioFiles(): Promise<Map<string, string>> {
+		const extensions = this.ffmpegPath
+			? [WAV_EXTENSION, ...OTHER_AUDIO_EXTENSIONS]
+			: [WAV_EXTENSION];
+		const files = new Map<string, string>();
+
+		try {
+			for (const name of await fs.readdir(this.audioDir)) {
+				const extension = path.extname(name).toLowerCase();
+				if (extensions.includes(extension)) {
+					files.set(
+						path.basename(name, path.extname(name)),
+						path.join(this.audioDir, name)
+					);
+				}
+			}
+		} catch (error: any) {
+			console.error(
+				`Audio directory ${this.audioDir} is not readable:`,
+				error.message
+			);
+		}
+		return files;
+	}
+
+	private async analyzeFile(
+		filePath: string
+	): Promise<Record<string, any> | null> {
+		try {
+			const stats = await fs.stat(filePath);
+			const key = `${filePath}:${stats.mtimeMs}:${stats.size}`;
+			if (this.analyses.has(key)) {
+				return this.analyses.get(key)!;
+			}
+
+			const audio =
+				path.extname(filePath).toLowerCase() === WAV_EXTENSION
+					? decodeWav(await fs.readFile(filePath))
+					: await decodeWithFfmpeg(this.ffmpegPath!, filePath);
+
+			// Failed analyses are remembered too, so a bad file isn't retried
+			let analysis: Record<string, any> | null = null;
+			try {
+				analysis = { ...analyzeAudio(audio) };
+			} catch (error: any) {
+				console.error(`Could not analyze ${filePath}:`, error.message);
+			}
+			this.analyses.set(key, analysis);
+			if (this.analyses.size > MAX_KEPT_ANALYSES) {
+				this.analyses.delete(this.analyses.keys().next().value!);
+			}
+			return analysis;
+		} catch (error: any) {
+			console.error(`Could not decode ${filePath}:`, error.message);
+			return null;
+		}
+	}
+}
+
+// Tracks described to the model per request
+const ESTIMATION_BATCH_SIZE = 25;
+// Tracks estimated per track to select. Scoring only needs a choice of
+// candidates, not estimates for a whole library.
+const ESTIMATED_TRACKS_PER_SELECTED = 5;
+
+// Model requests allowed for a run selecting the given number of tracks
+export function estimationBatchLimit(tracksToSelect: number): number {
+	return Math.ceil(
+		(tracksToSelect * ESTIMATED_TRACKS_PER_SELECTED) / ESTIMATION_BATCH_SIZE
+	);
+}
+
+// Features a language model estimates from the title, artist, album and year,
+// for tracks no other provider knows. Each value comes with the model's
+// confidence, and the features are marked as estimated so scoring can trust
+// them less. Estimates are kept in the catalog cache. Batches past the run's
+// estimation budget are skipped.
+export class EstimatedFeatureProvider implements FeatureProvider {
+	readonly name = 'estimated';
+
+	constructor(private llm: LLMProvider) {}
+
+	async getFeatures(
+		tracks: any[],
+		context: FeatureLookupContext
+	): Promise<FeatureLookupResult> {
+		const cached = await readCatalog(
+			'estimated_features',
+			tracks.map((track) => track.id)
+		);
+		const uncachedTracks = tracks.filter((track) => !cached.has(track.id));
+
+		const features = new Map<string, any>();
+		cached.forEach((trackFeatures, id) => {
+			if (trackFeatures) {
+				features.set(id, trackFeatures);
+			}
+		});
+
+		for (let i = 0; i < uncachedTracks.length; i += ESTIMATION_BATCH_SIZE) {
+			context.throwIfCancelled();
+
+			const budget = context.estimationBudget;
+			if (budget && budget.batches <= 0) {
+				console.log(
+					`Estimation limit reached, leaving ${
+						uncachedTracks.length - i
+					} tracks without estimates`
+				);
+				break;
+			}
+			if (budget) budget.batches--;
+
+			const trackBatch = uncachedTracks.slice(i, i + ESTIMATION_BATCH_SIZE);
+			try {
+				const estimates = await this.llm.estimateAudioFeatures!(
+					trackBatch.map(describeTrack)
+				);
+				const estimated = new Map<string, any>();
+				for (const estimate of estimates) {
+					estimated.set(estimate.id, {
+						id: estimate.id,
+						...estimate.features,
+						confidence: estimate.confidence,
+						estimated: true,
+					});
+				}
+				console.log(
+					`Estimated audio features for ${estimated.size} of ${trackBatch.length} tracks`
+				);
+
+				// Tracks the model left out of a response it got right are cached
+				// as "nothing found". A failed request caches nothing.
+				await writeCatalog(
+					'estimated_features',
+					trackBatch.map((track) => ({
+						id: track.id,
+						data: estimated.get(track.id) || null,
+					}))
+				);
+				estimated.forEach((trackFeatures, id) =>
+					features.set(id, trackFeatures)
+				);
+			} catch (error) {
+				console.error(
+					'Failed to estimate audio features:',
+					error instanceof Error ? error.message : String(error)
+				);
+			}
+		}
+
+		return { features, cachedIds: new Set(cached.keys()) };
+	}
+}
+
+// Features for each track from the first provider, in priority order, that
+// has them
+export async function lookupFeatures(
+	tracks: any[],
+	providers: FeatureProvider[],
+	context: FeatureLookupContext
+): Promise<{
+	features: Map<string, ProvidedFeatures>;
+	cacheHits: number;
+	cacheMisses: number;
+}> {
+	const features = new Map<string, ProvidedFeatures>();
+	// Whether each track came from a cache, decided by the provider that
+	// answered it or, for tracks nobody answered, the last one with a cache
+	const cacheHit = new Map<string, boolean>();
+	let remaining = tracks;
+
+	for (const provider of providers) {
+		if (remaining.length === 0) break;
+		if (context.unavailable?.has(provider.name)) continue;
+		context.throwIfCancelled();
+
+		const result = await provider.getFeatures(remaining, context);
+		for (const track of remaining) {
+			const trackFeatures = result.features.get(track.id);
+			if (trackFeatures) {
+				features.set(track.id, {
+					features: trackFeatures,
+					provider: provider.name,
+				});
+			}
+			if (result.cachedIds) {
+				cacheHit.set(track.id, result.cachedIds.has(track.id));
+			} else if (trackFeatures) {
+				cacheHit.delete(track.id);
+			}
+		}
+		remaining = remaining.filter((track) => !features.has(track.id));
+	}
+
+	const hits = Array.from(cacheHit.values()).filter(Boolean).length;
+	return {
+		features,
+		cacheHits: hits,
+		cacheMisses: cacheHit.size - hits,
+	};
+}
+
+// Pick the providers and their order from configuration:
+//   FEATURE_PROVIDERS     priority order, default
+//                         "spotify,dataset,local,estimated"
+//   FEATURE_DATASET_PATH  CSV or Parquet file for the dataset provider
+//   LOCAL_AUDIO_DIR       audio files for the local analyzer
+//   FFMPEG_PATH           lets the local analyzer decode formats besides WAV
+// Providers without their settings are left out, and "estimated" needs an
+// LLM provider (see llm-provider.ts) rather than the rule-based analyzer.
+export function createFeatureProviders(
+	env: NodeJS.ProcessEnv = process.env
+): FeatureProvider[] {
+	const configured = (
+		env.FEATURE_PROVIDERS || FEATURE_PROVIDER_NAMES.join(',')
+	)
+		.split(',')
+		.map((name) => name.trim().toLowerCase())
+		.filter(Boolean);
+
+	const providers: FeatureProvider[] = [];
+	for (const name of configured) {
+		if (providers.some((provider) => provider.name === name)) continue;
+
+		switch (name) {
+			case 'spotify':
+				providers.push(new SpotifyFeatureProvider());
+				break;
+			case 'dataset':
+				if (env.FEATURE_DATASET_PATH) {
+					providers.push(
+						new DatasetFeatureProvider(env.FEATURE_DATASET_PATH)
+					);
+				}
+				break;
+			case 'local':
+				if (env.LOCAL_AUDIO_DIR) {
+					providers.push(
+						new LocalAudioFeatureProvider(
+							env.LOCAL_AUDIO_DIR,
+							env.FFMPEG_PATH || undefined
+						)
+					);
+				}
+				break;
+			case 'estimated': {
+				const llm = getLLMProvider();
+				if (llm.estimateAudioFeatures) {
+					providers.push(new EstimatedFeatureProvider(llm));
+				}
+				break;
+			}
+			default:
+				console.warn(`Unknown feature provider "${name}", skipping it`);
+		}
+	}
+	return providers;
+}
+
+let activeProviders: FeatureProvider[] | null = null;
+
+// Providers shared by the routes, created on first use
+export function getFeatureProviders(): FeatureProvider[] {
+	if (!activeProviders) {
+		activeProviders = createFeatureProviders();
+		console.log(
+			`Audio feature providers: ${
+				activeProviders.map((provider) => provider.name).join(', ') ||
+				'none'
+			}`
+		);
+	}
+	return activeProviders;
+}
@@ -0,0 +1,178 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+// Progress snapshot pushed to subscribers for every update
+export interface GenerationProgressEvent {
+	jobId: string;
+	stage: string;
+	progress: number; // 0-100
+	message: string;
+	remainingTimeEstimate: number;
+	sources: Record<string, number>; // Tracks collected per source so far
+}
+
+export type GenerationEvent =
+	| { type: 'progress'; data: GenerationProgressEvent }
+	| { type: 'result'; data: any }
+	| { type: 'error'; data: { message: string; error?: any } };
+
+interface ProgressJob {
+	id: string;
+	userId: string;
+	processingMode: string;
+	startTime: number;
+	latest: GenerationProgressEvent;
+	result?: any;
+	error?: { message: string; error?: any };
+	cleanupTimer?: NodeJS.Timeout;
+}
+
+// Finished jobs are kept around briefly so late subscribers still get the result
+const FINISHED_JOB_TTL = 10 * 60 * 1000; // 10 minutes
+
+const jobs = new Map<string, ProgressJob>();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Helper function to estimate time based on processing mode
+export function getEstimatedTimeForMode(mode: string): number {
+	switch (mode) {
+		case 'quick':
+			return 30;
+		case 'standard':
+			return 60;
+		case 'comprehensive':
+			return 120;
+		case 'complete':
+			return 300;
+		default:
+			return 60;
+	}
+}
+
+// Register a new generation job and return its ID. Passing an existing ID
+// resets its progress, e.g. when a job is resumed.
+export function createProgressJob(
+	userId: string,
+	processingMode: string = 'standard',
+	id: string = randomUUID()
+): string {
+	const existing = jobs.get(id);
+	if (existing?.cleanupTimer) {
+		clearTimeout(existing.cleanupTimer);
+	}
+
+	jobs.set(id, {
+		id,
+		userId,
+		processingMode,
+		startTime: Date.now(),
+		latest: {
+			jobId: id,
+			stage: 'initializing',
+			progress: 0,
+			message: 'Starting playlist generation...',
+			remainingTimeEstimate: getEstimatedTimeForMode(processingMode),
+			sources: {},
+		},
+	});
+	return id;
+}
+
+export function getProgressJob(jobId: string): ProgressJob | undefined {
+	return jobs.get(jobId);
+}
+
+// Update the progress of a job and push it to all subscribers
+export function updateJobProgress(
+	jobId: string,
+	stage: string,
+	progress: number,
+	message: string,
+	sources?: Record<string, number>
+) {
+	const job = jobs.get(jobId);
+	if (!job) {
+		console.warn(`Progress update for unknown job ${jobId}`);
+		return;
+	}
+
+	// Update the remaining time estimate based on elapsed time
+	const elapsedSeconds = (Date.now() - job.startTime) / 1000;
+	const totalEstimate = getEstimatedTimeForMode(job.processingMode);
+	let remainingEstimate = Math.max(0, totalEstimate - elapsedSeconds);
+
+	// Don't let the estimate drop too quickly at the beginning
+	if (progress < 20) {
+		remainingEstimate = Math.max(remainingEstimate, totalEstimate * 0.8);
+	}
+
+	job.latest = {
+		jobId,
+		stage,
+		progress,
+		message,
+		remainingTimeEstimate: progress >= 100 ? 0 : remainingEstimate,
+		sources: { ...job.latest.sources, ...(sources || {}) },
+	};
+
+	emitter.emit(jobId, { type: 'progress', data: job.latest });
+	console.log(`Updated progress for job ${jobId}: ${stage} - ${progress}%`);
+}
+
+// Mark a job as finished with its final result payload
+export function completeProgressJob(jobId: string, result: any) {
+	const job = jobs.get(jobId);
+	if (!job) return;
+
+	job.result = result;
+	emitter.emit(jobId, { type: 'result', data: result });
+	scheduleCleanup(jobId);
+}
+
+// Mark a job as failed
+export function failProgressJob(jobId: string, message: string, error?: any) {
+	const job = jobs.get(jobId);
+	if (!job) return;
+
+	job.error = { message, error };
+	job.latest = { ...job.latest, stage: 'error', message };
+	emitter.emit(jobId, { type: 'error', data: job.error });
+	scheduleCleanup(jobId);
+}
+
+// Subscribe to the events of a job. The latest snapshot (and the final result
+// if the job already finished) is replayed immediately.
+export function subscribeToJob(
+	jobId: string,
+	listener: (event: GenerationEvent) => void
+): () => void {
+	const job = jobs.get(jobId);
+	if (job) {
+		listener({ type: 'progress', data: job.latest });
+		if (job.result !== undefined) {
+			listener({ type: 'result', data: job.result });
+		} else if (job.error) {
+			listener({ type: 'error', data: job.error });
+		}
+	}
+
+	emitter.on(jobId, listener);
+	return () => {
+		emitter.off(jobId, listener);
+	};
+}
+
+function scheduleCleanup(jobId: string) {
+	const job = jobs.get(jobId);
+	if (!job) return;
+
+	if (job.cleanupTimer) {
+		clearTimeout(job.cleanupTimer);
+	}
+	job.cleanupTimer = setTimeout(() => {
+		jobs.delete(jobId);
+		emitter.removeAllListeners(jobId);
+	}, FINISHED_JOB_TTL);
+	job.cleanupTimer.unref();
+}
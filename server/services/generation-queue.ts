@@ -0,0 +1,412 @@
+import GenerationJob, {
+	IGenerationJob,
+	GenerationJobStatus,
+} from '../models/GenerationJob';
+import {
+	createProgressJob,
+	updateJobProgress,
+	completeProgressJob,
+	failProgressJob,
+} from './generation-progress';
+
+// Ordered checkpoints of the generation pipeline
+export const GENERATION_STEPS = [
+	'analyze',
+	'matchGenres',
+	'collect',
+	'artistGenres',
+	'features',
+	'select',
+	'sequence',
+	'createShell',
+	'addTracks',
+] as const;
+
+export type GenerationStep = (typeof GENERATION_STEPS)[number];
+
+export class JobCancelledError extends Error {
+	constructor() {
+		super('Generation job was cancelled');
+		this.name = 'JobCancelledError';
+	}
+}
+
+// Everything a pipeline run needs, handed to the runner by the queue
+export interface GenerationJobContext {
+	jobId: string;
+	spotifyUserId: string;
+	userId?: any; // Database user ID when the job was started from a session
+	accessToken: string;
+	request: Record<string, any>;
+	signal: AbortSignal;
+	// Run a checkpointed step, returning the stored result if it already completed
+	step<T>(name: GenerationStep, run: () => Promise<T>): Promise<T>;
+	throwIfCancelled(): void;
+	progress(
+		stage: string,
+		progress: number,
+		message: string,
+		sources?: Record<string, number>
+	): void;
+}
+
+export type GenerationRunner = (context: GenerationJobContext) => Promise<any>;
+
+interface QueuedJob {
+	jobId: string;
+	spotifyUserId: string;
+	userId?: any;
+	accessToken: string;
+	request: Record<string, any>;
+	runner: GenerationRunner;
+}
+
+const MAX_CONCURRENT_JOBS = Math.max(
+	1,
+	parseInt(process.env.GENERATION_JOB_CONCURRENCY || '2', 10) || 2
+);
+
+const queue: QueuedJob[] = [];
+const runningJobs = new Map<string, AbortController>();
+
+// Persist job changes without letting database errors break the pipeline.
+// Returns whether the update was saved.
+async function persistJob(
+	jobId: string,
+	update: Record<string, any>
+): Promise<boolean> {
+	try {
+		await GenerationJob.updateOne({ jobId }, update);
+		return true;
+	} catch (error: any) {
+		console.error(`Failed to persist generation job ${jobId}:`, error.message);
+		return false;
+	}
+}
+
+async function loadCheckpoints(
+	jobId: string
+): Promise<Record<string, { completedAt: Date; data: any }>> {
+	try {
+		const job = await GenerationJob.findOne({ jobId }).lean();
+		return (job?.checkpoints as any) || {};
+	} catch (error: any) {
+		console.error(
+			`Failed to load checkpoints for job ${jobId}:`,
+			error.message
+		);
+		return {};
+	}
+}
+
+// Start as many queued jobs as the concurrency limit allows
+function drainQueue() {
+	while (runningJobs.size < MAX_CONCURRENT_JOBS && queue.length > 0) {
+		const next = queue.shift()!;
+		runJob(next);
+	}
+}
+
+async function runJob(queued: QueuedJob) {
+	const { jobId, runner } = queued;
+	const controller = new AbortController();
+	runningJobs.set(jobId, controller);
+
+	try {
+		await persistJob(jobId, {
+			$set: { status: 'running', startedAt: new Date() },
+			$unset: { error: 1 },
+			$inc: { attempts: 1 },
+		});
+
+		const checkpoints = await loadCheckpoints(jobId);
+		const completedSteps = Object.keys(checkpoints);
+		if (completedSteps.length > 0) {
+			console.log(
+				`Resuming job ${jobId} after steps: ${completedSteps.join(', ')}`
+			);
+		}
+
+		const throwIfCancelled = () => {
+			if (controller.signal.aborted) {
+				throw new JobCancelledError();
+			}
+		};
+
+		const context: GenerationJobContext = {
+			jobId,
+			spotifyUserId: queued.spotifyUserId,
+			userId: queued.userId,
+			accessToken: queued.accessToken,
+			request: queued.request,
+			signal: controller.signal,
+			throwIfCancelled,
+			progress: (stage, progress, message, sources) => {
+				updateJobProgress(jobId, stage, progress, message, sources);
+			},
+			step: async (name, run) => {
+				throwIfCancelled();
+
+				if (checkpoints[name]) {
+					console.log(`Job ${jobId}: reusing checkpoint "${name}"`);
+					return checkpoints[name].data;
+				}
+
+				await persistJob(jobId, { $set: { currentStep: name } });
+				const data = await run();
+				throwIfCancelled();
+
+				const checkpoint = { completedAt: new Date(), data };
+				checkpoints[name] = checkpoint;
+				const saved = await persistJob(jobId, {
+					$set: { [`checkpoints.${name}`]: checkpoint },
+				});
+				if (!saved) {
+					console.warn(
+						`Job ${jobId}: checkpoint "${name}" was not saved, a resumed job will run it again`
+					);
+				}
+				return data;
+			},
+		};
+
+		const result = await runner(context);
+		throwIfCancelled();
+
+		await persistJob(jobId, {
+			$set: {
+				status: 'succeeded',
+				result,
+				finishedAt: new Date(),
+				progress: {
+					stage: 'complete',
+					progress: 100,
+					message: result?.message || 'Playlist created successfully!',
+				},
+			},
+		});
+		completeProgressJob(jobId, result);
+	} catch (error: any) {
+		if (controller.signal.aborted || error instanceof JobCancelledError) {
+			console.log(`Generation job ${jobId} cancelled`);
+			await persistJob(jobId, {
+				$set: { status: 'cancelled', finishedAt: new Date() },
+			});
+			failProgressJob(jobId, 'Generation job was cancelled');
+		} else {
+			console.error(`Generation job ${jobId} failed:`, error.message);
+			await persistJob(jobId, {
+				$set: {
+					status: 'failed',
+					error: error.message,
+					finishedAt: new Date(),
+				},
+			});
+			failProgressJob(jobId, 'Failed to generate AI playlist', error.message);
+		}
+	} finally {
+		runningJobs.delete(jobId);
+		drainQueue();
+	}
+}
+
+// Create a persisted job and put it in the queue
+export async function enqueueGenerationJob(
+	options: {
+		spotifyUserId: string;
+		userId?: any;
+		accessToken: string;
+		request: Record<string, any>;
+	},
+	runner: GenerationRunner
+): Promise<string> {
+	const jobId = createProgressJob(
+		options.spotifyUserId,
+		options.request.processingMode
+	);
+
+	try {
+		await GenerationJob.create({
+			jobId,
+			spotifyUserId: options.spotifyUserId,
+			userId: options.userId,
+			status: 'queued',
+			request: options.request,
+		});
+	} catch (error: any) {
+		console.error(
+			`Failed to persist generation job ${jobId}, running in memory only:`,
+			error.message
+		);
+	}
+
+	queue.push({ jobId, ...options, runner });
+	updateJobProgress(jobId, 'queued', 0, 'Waiting to start...');
+	drainQueue();
+	return jobId;
+}
+
+export async function getGenerationJob(
+	jobId: string
+): Promise<IGenerationJob | null> {
+	return GenerationJob.findOne({ jobId });
+}
+
+// Cancel a queued or running job. Returns false if the job already finished.
+export async function cancelGenerationJob(jobId: string): Promise<boolean> {
+	const queuedIndex = queue.findIndex((job) => job.jobId === jobId);
+	if (queuedIndex !== -1) {
+		queue.splice(queuedIndex, 1);
+		await persistJob(jobId, {
+			$set: { status: 'cancelled', finishedAt: new Date() },
+		});
+		failProgressJob(jobId, 'Generation job was cancelled');
+		return true;
+	}
+
+	const controller = runningJobs.get(jobId);
+	if (controller) {
+		// The running pipeline stops at its next cancellation check
+		controller.abort();
+		await persistJob(jobId, { $set: { status: 'cancelled' } });
+		return true;
+	}
+
+	// Jobs left queued or running by a previous process can't be running now
+	const job = await GenerationJob.findOne({ jobId });
+	if (job && (job.status === 'queued' || job.status === 'running')) {
+		await persistJob(jobId, {
+			$set: { status: 'cancelled', finishedAt: new Date() },
+		});
+		return true;
+	}
+
+	return false;
+}
+
+// Put a job loaded from the database back in the queue with a fresh token
+function requeueJob(
+	job: IGenerationJob,
+	accessToken: string,
+	runner: GenerationRunner,
+	message: string
+) {
+	createProgressJob(job.spotifyUserId, job.request.processingMode, job.jobId);
+	queue.push({
+		jobId: job.jobId,
+		spotifyUserId: job.spotifyUserId,
+		userId: job.userId,
+		accessToken,
+		request: job.request,
+		runner,
+	});
+	updateJobProgress(job.jobId, 'queued', 0, message);
+	drainQueue();
+}
+
+// Put a failed or cancelled job back in the queue. Completed checkpoints are
+// kept, so the pipeline continues from the last finished step.
+export async function resumeGenerationJob(
+	jobId: string,
+	accessToken: string,
+	runner: GenerationRunner
+): Promise<IGenerationJob | null> {
+	// A cancelled job may still be winding down
+	if (isJobActive(jobId)) {
+		return null;
+	}
+
+	const resumableStatuses: GenerationJobStatus[] = ['failed', 'cancelled'];
+	const job = await GenerationJob.findOneAndUpdate(
+		{ jobId, status: { $in: resumableStatuses } },
+		{ $set: { status: 'queued' }, $unset: { error: 1, finishedAt: 1 } },
+		{ new: true }
+	);
+
+	if (!job) {
+		return null;
+	}
+
+	requeueJob(job, accessToken, runner, 'Resuming playlist generation...');
+	return job;
+}
+
+// Commit a finished draft: the approved selection replaces the "select"
+// checkpoint and the job runs again from there, ending with the Spotify writes
+export async function commitDraftJob(
+	jobId: string,
+	accessToken: string,
+	approvedSelection: any,
+	overrides: { name?: string; description?: string },
+	runner: GenerationRunner
+): Promise<IGenerationJob | null> {
+	if (isJobActive(jobId)) {
+		return null;
+	}
+
+	const update: Record<string, any> = {
+		status: 'queued',
+		'request.draft': false,
+		'checkpoints.select': { completedAt: new Date(), data: approvedSelection },
+	};
+	if (overrides.name !== undefined) {
+		update['request.name'] = overrides.name;
+	}
+	if (overrides.description !== undefined) {
+		update['request.description'] = overrides.description;
+	}
+
+	// Steps after "select" ran on the draft's tracks and have to run again
+	const staleCheckpoints: Record<string, 1> = {};
+	GENERATION_STEPS.slice(GENERATION_STEPS.indexOf('select') + 1).forEach(
+		(step) => {
+			staleCheckpoints[`checkpoints.${step}`] = 1;
+		}
+	);
+
+	const job = await GenerationJob.findOneAndUpdate(
+		{ jobId, status: 'succeeded', 'request.draft': true },
+		{
+			$set: update,
+			$unset: { result: 1, finishedAt: 1, ...staleCheckpoints },
+		},
+		{ new: true }
+	);
+
+	if (!job) {
+		return null;
+	}
+
+	requeueJob(job, accessToken, runner, 'Saving your playlist...');
+	return job;
+}
+
+// Jobs that were queued or running when the server stopped have lost their
+// access token, so mark them failed. They can be resumed from their checkpoints.
+export async function recoverInterruptedJobs() {
+	try {
+		const result = await GenerationJob.updateMany(
+			{ status: { $in: ['queued', 'running'] } },
+			{
+				$set: {
+					status: 'failed',
+					error: 'Interrupted by a server restart',
+					finishedAt: new Date(),
+				},
+			}
+		);
+		if (result.modifiedCount > 0) {
+			console.log(
+				`Marked ${result.modifiedCount} interrupted generation jobs as failed`
+			);
+		}
+	} catch (error: any) {
+		console.error('Failed to recover interrupted jobs:', error.message);
+	}
+}
+
+export function isJobActive(jobId: string): boolean {
+	return (
+		runningJobs.has(jobId) || queue.some((job) => job.jobId === jobId)
+	);
+}
@@ -0,0 +1,800 @@
+import OpenAI from 'openai';
+import { SequencingStrategy } from './sequencing';
+import {
+	PromptAnalysis,
+	PromptSegment,
+	FeatureWeights,
+	HardConstraint,
+	DEFAULT_PROMPT_ANALYSIS,
+	Exclusions,
+	MAX_SEGMENTS,
+	PromptAnalysisValidationError,
+	parsePromptAnalysis,
+} from './prompt-analysis';
+import {
+	TrackDescription,
+	TrackFeatureEstimate,
+	FEATURE_ESTIMATION_PROMPT,
+	parseFeatureEstimates,
+} from './feature-estimation';
+
+export type LLMProviderName = 'openai' | 'local' | 'rule-based';
+
+// Anything that can turn a playlist prompt into a PromptAnalysis
+export interface LLMProvider {
+	readonly name: LLMProviderName;
+	readonly model: string;
+	analyzePrompt(prompt: string): Promise<PromptAnalysis>;
+	// Only providers backed by a language model can estimate features
+	estimateAudioFeatures?(
+		tracks: TrackDescription[]
+	): Promise<TrackFeatureEstimate[]>;
+}
+
+const ANALYSIS_SYSTEM_PROMPT = `You are a music curation expert who analyzes playlist requests and translates them into specific characteristics that can be used to filter songs.
+
+Output a JSON object with the following parameters:
+- genres: Array of relevant music genres (string[]). Be specific and accurate with genre names. Include both broad genres and specific sub-genres when appropriate.
+- moods: Array of moods (string[]). Prefer plain mood words such as "melancholic", "euphoric", "aggressive", "dreamy", "calm" or "romantic"
+- energy_range: Range of energy values [min, max] (0.0-1.0)
+- tempo_range: Range of BPM [min, max] (e.g., [60, 180])
+- danceability_range: Range of danceability values [min, max] (0.0-1.0)
+- acousticness_range: Range of acousticness values [min, max] (0.0-1.0)
+- instrumentalness_range: Range of instrumentalness values [min, max] (0.0-1.0)
+- valence_range: Range of valence (happiness) values [min, max] (0.0-1.0)
+- description: Brief description of the playlist style (KEEP UNDER 100 CHARACTERS)
+- filter_logic: Concise explanation of the most important parameters to prioritize
+- popularity_level: String indicating desired popularity level ("high", "medium", "low", or "any")
+- target_duration_minutes: Total playlist length in minutes when the request states one, e.g. 45 for "a 45-minute run" or 180 for "3 hours for a road trip". Use null when no length is given
+- hidden_gems: true when the request asks for deep cuts, lesser-known tracks or hidden gems instead of hits, otherwise false
+- feature_weights: Object with a weight from 0 to 5 for each of energy, tempo, danceability, acousticness, valence, instrumentalness, genre, popularity and mood. 1 is neutral, higher values make the feature matter more when ranking tracks and 0 ignores it
+- hard_constraints: Array of strict requirements, only for things the request explicitly rules out or demands. Each item is { "feature": one of energy, tempo, danceability, acousticness, valence, instrumentalness, "min"?: number, "max"?: number, "reason": string }. For example "no vocals" is { "feature": "instrumentalness", "min": 0.7, "reason": "no vocals" }. Use an empty array when there are none
+- exclusions: What the request rules out, as { "artists": string[], "genres": string[], "title_keywords": string[], "explicit": boolean }. title_keywords are version words to avoid in track titles, such as "live", "remix", "acoustic" or "cover". Set explicit to true when explicit lyrics are ruled out. For example "no country, nothing by Drake, no live versions, no explicit lyrics" is { "artists": ["Drake"], "genres": ["country"], "title_keywords": ["live"], "explicit": true }. Never list an excluded genre in genres. Use empty arrays and false when nothing is ruled out
+- sequence_strategy: How the tracks should be ordered. One of "none" (order doesn't matter), "ramp_up" (rising energy, e.g. a buildup to a drop), "peak" (build up, peak in the middle, cool down), "cool_down" (falling energy, e.g. winding down), "tempo_flow" (smooth tempo changes) or "harmonic" (key-compatible transitions for DJ-style mixing)
+- segments: Ordered array of sections, only when the request changes along the way, e.g. "start chill for dinner, then build into dance music". Each item is { "label": short name of the section, "share": relative share of the playlist (e.g. minutes when the request gives them), "genres"?: string[], "moods"?: string[], any of the *_range fields, "sequence_strategy"?: string }. The top-level fields still describe the whole playlist. Use an empty array when the request doesn't change along the way
+
+For audio features:
+- Energy represents intensity and activity (0.0 to 1.0)
+- Danceability describes how suitable a track is for dancing (0.0 to 1.0)
+- Acousticness represents acoustic elements vs electronic/electric (0.0 to 1.0)
+- Instrumentalness predicts vocals (0.0) vs instrumental tracks (1.0)
+- Valence describes musical positiveness/happiness (0.0 to 1.0)
+
+Be specific but concise in your analysis. Your output will be used directly to filter songs. KEEP THE DESCRIPTION UNDER 100 CHARACTERS.`;
+
+// Chat completion provider for OpenAI and any server that speaks the same
+// API (Ollama, llama.cpp server, vLLM, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly name: LLMProviderName;
+	readonly model: string;
+	private client: OpenAI;
+
+	constructor(options: {
+		name: LLMProviderName;
+		model: string;
+		apiKey: string;
+		baseURL?: string;
+		timeoutMs?: number;
+	}) {
+		this.name = options.name;
+		this.model = options.model;
+		this.client = new OpenAI({
+			apiKey: options.apiKey,
+			baseURL: options.baseURL,
+			timeout: options.timeoutMs,
+		});
+	}
+
+	// Invalid output gets one repair attempt that shows the model its errors
+	async analyzePrompt(prompt: string): Promise<PromptAnalysis> {
+		const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+			{ role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+			{
+				role: 'user',
+				content: `Analyze this playlist request for a complex, accurate representation of genres and audio features: "${prompt}"`,
+			},
+		];
+
+		const content = await this.complete(messages);
+		const result = parsePromptAnalysis(content);
+		if (result.success) {
+			return result.data;
+		}
+
+		console.warn(
+			`${this.name} returned an invalid analysis, asking for a repair:`,
+			result.errors
+		);
+		messages.push(
+			{ role: 'assistant', content },
+			{
+				role: 'user',
+				content: `Your JSON failed validation:\n- ${result.errors.join(
+					'\n- '
+				)}\nReturn the corrected JSON object only.`,
+			}
+		);
+
+		const repaired = parsePromptAnalysis(await this.complete(messages));
+		if (!repaired.success) {
+			throw new PromptAnalysisValidationError(repaired.errors);
+		}
+		return repaired.data;
+	}
+
+	// Tracks the model doesn't know are left out of the result. Throws when
+	// the response can't be parsed.
+	async estimateAudioFeatures(
+		tracks: TrackDescription[]
+	): Promise<TrackFeatureEstimate[]> {
+		if (tracks.length === 0) {
+			return [];
+		}
+
+		const content = await this.complete([
+			{ role: 'system', content: FEATURE_ESTIMATION_PROMPT },
+			{
+				role: 'user',
+				content: `Estimate the audio features of these tracks:\n${JSON.stringify(
+					tracks
+				)}`,
+			},
+		]);
+		const estimates = parseFeatureEstimates(
+			content,
+			tracks.map((track) => track.id)
+		);
+		if (!estimates) {
+			throw new Error('Could not parse the feature estimates');
+		}
+		return estimates;
+	}
+
+	private async complete(
+		messages: OpenAI.Chat.ChatCompletionMessageParam[]
+	): Promise<string> {
+		const completion = await this.client.chat.completions.create({
+			model: this.model,
+			messages,
+			response_format: { type: 'json_object' },
+		});
+		return completion.choices[0]?.message?.content || '{}';
+	}
+}
+
+type Range = [number, number];
+
+interface KeywordRule {
+	keywords: string[];
+	moods?: string[];
+	genres?: string[];
+	energy?: Range;
+	tempo?: Range;
+	danceability?: Range;
+	acousticness?: Range;
+	instrumentalness?: Range;
+	valence?: Range;
+	weights?: Partial<FeatureWeights>;
+	hardConstraints?: HardConstraint[];
+	sequence?: SequencingStrategy;
+}
+
+// Activities and moods the offline analyzer understands
+const KEYWORD_RULES: KeywordRule[] = [
+	{
+		keywords: ['workout', 'gym', 'running', 'run', 'training', 'cardio'],
+		moods: ['energetic', 'motivated'],
+		energy: [0.7, 1.0],
+		tempo: [120, 180],
+		danceability: [0.5, 1.0],
+		weights: { energy: 2, tempo: 2 },
+	},
+	{
+		keywords: ['party', 'dance', 'dancing', 'club'],
+		moods: ['festive', 'upbeat'],
+		energy: [0.6, 1.0],
+		danceability: [0.65, 1.0],
+		valence: [0.5, 1.0],
+		weights: { danceability: 2.5, energy: 1.5 },
+	},
+	{
+		keywords: ['chill', 'relax', 'relaxing', 'calm', 'mellow', 'lazy'],
+		moods: ['relaxed', 'calm'],
+		energy: [0.0, 0.5],
+		tempo: [60, 110],
+		weights: { energy: 2 },
+	},
+	{
+		keywords: ['sleep', 'sleeping', 'bedtime', 'meditation'],
+		moods: ['peaceful', 'calm'],
+		energy: [0.0, 0.3],
+		tempo: [50, 90],
+		acousticness: [0.4, 1.0],
+		instrumentalness: [0.3, 1.0],
+		weights: { energy: 2, acousticness: 1.5, instrumentalness: 1.5 },
+	},
+	{
+		keywords: [
+			'focus',
+			'study',
+			'studying',
+			'concentration',
+			'work',
+			'coding',
+		],
+		moods: ['focused'],
+		energy: [0.2, 0.6],
+		instrumentalness: [0.5, 1.0],
+		weights: { instrumentalness: 2.5, energy: 1.5 },
+	},
+	{
+		keywords: [
+			'sad',
+			'melancholy',
+			'melancholic',
+			'heartbreak',
+			'rainy',
+			'lonely',
+		],
+		moods: ['melancholic', 'reflective'],
+		valence: [0.0, 0.35],
+		energy: [0.0, 0.6],
+		weights: { valence: 2.5 },
+	},
+	{
+		keywords: [
+			'happy',
+			'upbeat',
+			'sunny',
+			'cheerful',
+			'feel good',
+			'feel-good',
+		],
+		moods: ['happy', 'uplifting'],
+		valence: [0.6, 1.0],
+		energy: [0.5, 1.0],
+		weights: { valence: 2.5 },
+	},
+	{
+		keywords: ['angry', 'aggressive', 'intense', 'heavy'],
+		moods: ['aggressive', 'intense'],
+		energy: [0.8, 1.0],
+		valence: [0.0, 0.5],
+		weights: { energy: 2.5 },
+	},
+	{
+		keywords: ['romantic', 'love', 'date night'],
+		moods: ['romantic'],
+		energy: [0.2, 0.6],
+		valence: [0.4, 0.9],
+		weights: { valence: 1.5 },
+	},
+	{
+		keywords: ['road trip', 'driving', 'drive'],
+		moods: ['adventurous', 'upbeat'],
+		energy: [0.5, 0.9],
+		valence: [0.5, 1.0],
+		weights: { energy: 1.5, valence: 1.5 },
+	},
+	{
+		keywords: ['acoustic', 'unplugged'],
+		moods: ['intimate'],
+		acousticness: [0.6, 1.0],
+		weights: { acousticness: 3 },
+	},
+	{
+		keywords: ['instrumental'],
+		instrumentalness: [0.6, 1.0],
+		weights: { instrumentalness: 3 },
+	},
+	{
+		keywords: ['no vocals', 'without vocals', 'no lyrics', 'without lyrics'],
+		instrumentalness: [0.7, 1.0],
+		weights: { instrumentalness: 3 },
+		hardConstraints: [
+			{ feature: 'instrumentalness', min: 0.7, reason: 'no vocals' },
+		],
+	},
+	{
+		keywords: [
+			'buildup',
+			'build up',
+			'build-up',
+			'build into',
+			'drop',
+			'crescendo',
+		],
+		sequence: 'ramp_up',
+	},
+	{
+		keywords: ['warm up', 'warm-up', 'peak', 'journey', 'arc'],
+		sequence: 'peak',
+	},
+	{
+		keywords: ['wind down', 'winding down', 'cool down', 'cooldown'],
+		sequence: 'cool_down',
+	},
+	{
+		keywords: ['dj', 'dj set', 'mixing', 'seamless', 'harmonic'],
+		sequence: 'harmonic',
+	},
+	{
+		keywords: ['bass', 'subwoofer', 'speakers', 'loud'],
+		moods: ['powerful'],
+		genres: ['edm', 'dubstep', 'hip-hop'],
+		energy: [0.75, 1.0],
+		weights: { energy: 2.5, genre: 1.5 },
+	},
+];
+
+// Genre names recognised in prompts, mapped to the Spotify genre seed
+const GENRE_KEYWORDS: Record<string, string> = {
+	rock: 'rock',
+	metal: 'metal',
+	'heavy metal': 'heavy-metal',
+	punk: 'punk',
+	grunge: 'grunge',
+	indie: 'indie',
+	alternative: 'alternative',
+	pop: 'pop',
+	'k-pop': 'k-pop',
+	kpop: 'k-pop',
+	'hip hop': 'hip-hop',
+	'hip-hop': 'hip-hop',
+	rap: 'hip-hop',
+	trap: 'trap',
+	'r&b': 'r-n-b',
+	rnb: 'r-n-b',
+	soul: 'soul',
+	funk: 'funk',
+	disco: 'disco',
+	jazz: 'jazz',
+	blues: 'blues',
+	classical: 'classical',
+	piano: 'piano',
+	opera: 'opera',
+	country: 'country',
+	folk: 'folk',
+	bluegrass: 'bluegrass',
+	reggae: 'reggae',
+	reggaeton: 'reggaeton',
+	latin: 'latin',
+	salsa: 'salsa',
+	electronic: 'electronic',
+	edm: 'edm',
+	house: 'house',
+	techno: 'techno',
+	trance: 'trance',
+	dubstep: 'dubstep',
+	'drum and bass': 'drum-and-bass',
+	dnb: 'drum-and-bass',
+	ambient: 'ambient',
+	'lo-fi': 'chill',
+	lofi: 'chill',
+	synthwave: 'synth-pop',
+	gospel: 'gospel',
+	soundtrack: 'soundtracks',
+	emo: 'emo',
+	'singer-songwriter': 'singer-songwriter',
+};
+
+const RANGE_FIELDS = [
+	['energy', 'energy_range'],
+	['tempo', 'tempo_range'],
+	['danceability', 'danceability_range'],
+	['acousticness', 'acousticness_range'],
+	['instrumentalness', 'instrumentalness_range'],
+	['valence', 'valence_range'],
+] as const;
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match; hyphenated words like "k-pop" don't match "pop"
+export function containsKeyword(text: string, keyword: string): boolean {
+	const escaped = escapeRegExp(keyword);
+	return new RegExp(`(^|[^a-z0-9-])${escaped}($|[^a-z0-9-])`).test(text);
+}
+
+// Words that rule out what follows them, as in "no country" or "not dubstep"
+const NEGATION = '\\b(?:no|not|without|avoid|skip|nothing)\\s+(?:any\\s+)?';
+
+// Version words recognised after a negation, e.g. "no live versions"
+const TITLE_EXCLUSION_KEYWORDS = [
+	'live',
+	'remix',
+	'acoustic',
+	'cover',
+	'demo',
+	'remaster',
+	'radio edit',
+];
+
+// What a prompt rules out, and the prompt with those phrases removed so the
+// keyword rules don't pick them up: "no acoustic versions" isn't a request
+// for acoustic music
+export function extractExclusions(text: string): {
+	exclusions: Exclusions;
+	text: string;
+} {
+	const exclusions: Exclusions = {
+		artists: [],
+		genres: [],
+		title_keywords: [],
+		explicit: false,
+	};
+	let rest = text;
+	const remove = (pattern: RegExp, onMatch: (match: string[]) => void) => {
+		rest = rest.replace(pattern, (...match) => {
+			onMatch(match);
+			return ' ';
+		});
+	};
+
+	remove(
+		new RegExp(
+			`${NEGATION}(?:explicit|swearing|profanity|cursing|curse words)` +
+				'(?:\\s+(?:lyrics|content|songs|tracks|language))?\\b|' +
+				'\\bclean (?:lyrics|versions?|songs|only)\\b|' +
+				'\\b(?:family|kid)[- ]friendly\\b',
+			'g'
+		),
+		() => (exclusions.explicit = true)
+	);
+
+	// "nothing by drake", "no songs from coldplay or u2". The names run to
+	// the end of the clause.
+	remove(
+		new RegExp(
+			'\\b(?:nothing|no songs?|no tracks?|no music|none) (?:by|from) ' +
+				'((?:(?!\\s+and\\s+(?:no|not|nothing|without)\\b)[^,;.!?])+)',
+			'g'
+		),
+		([, names]) => {
+			for (const name of names.split(/\s+(?:or|nor)\s+/)) {
+				const artist = name.replace(/\s+please$/, '').trim();
+				if (artist && !exclusions.artists.includes(artist)) {
+					exclusions.artists.push(artist);
+				}
+			}
+		}
+	);
+
+	// "no remixes or covers" rules out both
+	const alternatives = new RegExp(
+		`(${NEGATION}[^,;.!?]*?)\\s+(?:or|nor)\\s+(?!no\\b)`
+	);
+	for (let i = 0; i < 10 && alternatives.test(rest); i++) {
+		rest = rest.replace(alternatives, '$1 no ');
+	}
+
+	for (const keyword of TITLE_EXCLUSION_KEYWORDS) {
+		remove(
+			new RegExp(
+				`${NEGATION}${escapeRegExp(keyword)}(?:e?s|ed)?` +
+					'(?:\\s+(?:versions?|tracks?|songs?|recordings?))?\\b',
+				'g'
+			),
+			() => {
+				if (!exclusions.title_keywords.includes(keyword)) {
+					exclusions.title_keywords.push(keyword);
+				}
+			}
+		);
+	}
+
+	for (const [keyword, genre] of Object.entries(GENRE_KEYWORDS)) {
+		remove(
+			new RegExp(
+				`${NEGATION}${escapeRegExp(keyword)}` +
+					'(?:\\s+(?:music|songs?|tracks?))?(?![a-z0-9-])',
+				'g'
+			),
+			() => {
+				if (!exclusions.genres.includes(genre)) {
+					exclusions.genres.push(genre);
+				}
+			}
+		);
+	}
+
+	return { exclusions, text: rest };
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+	a: 1,
+	an: 1,
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+	eight: 8,
+	nine: 9,
+	ten: 10,
+};
+
+// Total length stated in a prompt, in minutes: "a 45-minute run", "3 hours",
+// "an hour and a half", "1 hour 30 minutes", "half an hour"
+export function extractDurationMinutes(text: string): number | null {
+	const number = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+	const minuteUnit = '[\\s-]*(?:minutes?|mins?)\\b';
+	const toNumber = (value: string) => NUMBER_WORDS[value] ?? parseFloat(value);
+	const withinLimit = (minutes: number) =>
+		minutes > 0 && minutes <= 600 ? minutes : null;
+
+	if (/\bhalf an? hour\b/.test(text)) {
+		return 30;
+	}
+
+	const hours = new RegExp(
+		`\\b${number}[\\s-]*(?:hours?|hrs?|h)\\b` +
+			`(?:\\s*(?:and\\s+)?(a half\\b|${number}${minuteUnit}))?`
+	).exec(text);
+	if (hours) {
+		const extra =
+			hours[2] === 'a half' ? 30 : hours[3] ? toNumber(hours[3]) : 0;
+		return withinLimit(toNumber(hours[1]) * 60 + extra);
+	}
+
+	const minutes = new RegExp(`\\b${number}${minuteUnit}`).exec(text);
+	return minutes ? withinLimit(toNumber(minutes[1])) : null;
+}
+
+// Narrow a range by another one, keeping the current range if they don't overlap
+function intersectRanges(current: Range, next: Range): Range {
+	const min = Math.max(current[0], next[0]);
+	const max = Math.min(current[1], next[1]);
+	return min <= max ? [min, max] : current;
+}
+
+// Words that move a prompt on to its next section
+const SEGMENT_SEPARATORS = [
+	'and then',
+	'then',
+	'followed by',
+	'after that',
+	'finishing with',
+	'ending with',
+	'end with',
+];
+
+// The sections of a prompt like "start chill, then build into dance music"
+function splitSegmentText(text: string): string[] {
+	return text
+		.split(
+			new RegExp(`(?:[,;]\\s*)?\\b(?:${SEGMENT_SEPARATORS.join('|')})\\b`)
+		)
+		.map((part) => part.replace(/^[\s,;.]+|[\s,;.]+$/g, ''))
+		.filter(Boolean)
+		.slice(0, MAX_SEGMENTS);
+}
+
+// Whether a keyword rule or genre matched the text
+function hasMatches(analysis: PromptAnalysis): boolean {
+	return (
+		analysis.genres.length > 0 ||
+		analysis.filter_logic !== DEFAULT_PROMPT_ANALYSIS.filter_logic
+	);
+}
+
+// A segment with the part's genres, moods and order, and the ranges it
+// narrows
+function toSegment(
+	text: string,
+	analysis: PromptAnalysis,
+	share: number
+): PromptSegment {
+	const label = `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+	const segment: PromptSegment = {
+		label: label.length > 60 ? `${label.substring(0, 57)}...` : label,
+		share,
+		genres: analysis.genres,
+		moods: analysis.moods.filter((mood) => mood !== 'general'),
+		sequence_strategy: analysis.sequence_strategy,
+	};
+	for (const [, field] of RANGE_FIELDS) {
+		const range = analysis[field];
+		const defaultRange = DEFAULT_PROMPT_ANALYSIS[field];
+		if (range[0] !== defaultRange[0] || range[1] !== defaultRange[1]) {
+			segment[field] = range;
+		}
+	}
+	return segment;
+}
+
+// Deterministic keyword analyzer that needs no network access
+export class RuleBasedProvider implements LLMProvider {
+	readonly name: LLMProviderName = 'rule-based';
+	readonly model = 'keyword-rules-v1';
+
+	async analyzePrompt(prompt: string): Promise<PromptAnalysis> {
+		const text = prompt.toLowerCase();
+		const analysis = this.analyzeText(text);
+		const parts = splitSegmentText(text);
+		if (parts.length < 2) {
+			return analysis;
+		}
+
+		// Only split when every part says something the rules understand
+		const partAnalyses = parts.map((part) => this.analyzeText(part));
+		if (partAnalyses.some((part) => !hasMatches(part))) {
+			return analysis;
+		}
+
+		const durations = partAnalyses.map((part) => part.target_duration_minutes);
+		const allTimed = durations.every((minutes) => minutes !== null);
+		analysis.segments = partAnalyses.map((part, index) =>
+			toSegment(parts[index], part, allTimed ? durations[index]! : 1)
+		);
+		if (allTimed) {
+			analysis.target_duration_minutes = Math.min(
+				600,
+				durations.reduce((sum: number, minutes) => sum + minutes!, 0)
+			);
+		}
+		return analysis;
+	}
+
+	private analyzeText(prompt: string): PromptAnalysis {
+		const { exclusions, text } = extractExclusions(prompt);
+		const analysis: PromptAnalysis = {
+			...DEFAULT_PROMPT_ANALYSIS,
+			moods: [],
+			genres: [],
+			feature_weights: { ...DEFAULT_PROMPT_ANALYSIS.feature_weights },
+			hard_constraints: [],
+			exclusions,
+		};
+		const matchedKeywords: string[] = [];
+
+		for (const [keyword, genre] of Object.entries(GENRE_KEYWORDS)) {
+			if (
+				containsKeyword(text, keyword) &&
+				!analysis.genres.includes(genre)
+			) {
+				analysis.genres.push(genre);
+			}
+		}
+
+		for (const rule of KEYWORD_RULES) {
+			const keyword = rule.keywords.find((k) => containsKeyword(text, k));
+			if (!keyword) continue;
+
+			matchedKeywords.push(keyword);
+			for (const mood of rule.moods || []) {
+				if (!analysis.moods.includes(mood)) analysis.moods.push(mood);
+			}
+			for (const genre of rule.genres || []) {
+				if (!analysis.genres.includes(genre)) analysis.genres.push(genre);
+			}
+			analysis.hard_constraints.push(...(rule.hardConstraints || []));
+			if (rule.sequence && analysis.sequence_strategy === 'none') {
+				analysis.sequence_strategy = rule.sequence;
+			}
+
+			// The strongest emphasis of all matched rules wins
+			for (const [feature, weight] of Object.entries(rule.weights || {})) {
+				const key = feature as keyof FeatureWeights;
+				analysis.feature_weights[key] = Math.max(
+					analysis.feature_weights[key],
+					weight
+				);
+			}
+			for (const [ruleField, analysisField] of RANGE_FIELDS) {
+				const range = rule[ruleField];
+				if (range) {
+					analysis[analysisField] = intersectRanges(
+						analysis[analysisField],
+						range
+					);
+				}
+			}
+		}
+
+		// A keyword rule can suggest a genre the prompt rules out
+		analysis.genres = analysis.genres.filter(
+			(genre) => !exclusions.genres.includes(genre)
+		);
+
+		// Genres named in the prompt should matter more than the default
+		if (analysis.genres.length > 0) {
+			analysis.feature_weights.genre = Math.max(
+				analysis.feature_weights.genre,
+				2
+			);
+		}
+
+		if (/\b(hidden gems?|obscure|underground|deep cuts?)\b/.test(text)) {
+			analysis.popularity_level = 'low';
+			analysis.hidden_gems = true;
+			analysis.feature_weights.popularity = 2;
+		} else if (/\b(hits|popular|chart|top 40|mainstream)\b/.test(text)) {
+			analysis.popularity_level = 'high';
+			analysis.feature_weights.popularity = 2;
+		}
+
+		analysis.target_duration_minutes = extractDurationMinutes(text);
+
+		if (analysis.moods.length === 0) {
+			analysis.moods = [...DEFAULT_PROMPT_ANALYSIS.moods];
+		}
+
+		const label = [
+			...analysis.moods.slice(0, 2),
+			...analysis.genres.slice(0, 2),
+		]
+			.filter((part) => part !== 'general')
+			.join(', ');
+		analysis.description = (
+			label
+				? `${label.charAt(0).toUpperCase()}${label.slice(1)} playlist`
+				: DEFAULT_PROMPT_ANALYSIS.description
+		).substring(0, 100);
+		analysis.filter_logic =
+			matchedKeywords.length > 0
+				? `Keyword rules matched: ${matchedKeywords.join(', ')}`
+				: DEFAULT_PROMPT_ANALYSIS.filter_logic;
+
+		return analysis;
+	}
+}
+
+// Pick the provider from configuration:
+//   LLM_PROVIDER=openai      OPENAI_API_KEY, OPENAI_MODEL (default gpt-4-turbo)
+//   LLM_PROVIDER=local       LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY
+//   LLM_PROVIDER=rule-based  offline keyword analyzer
+// Without LLM_PROVIDER, OpenAI is used when an API key is set.
+export function createLLMProvider(
+	env: NodeJS.ProcessEnv = process.env
+): LLMProvider {
+	const configured = (env.LLM_PROVIDER || '').toLowerCase();
+	const timeoutMs = parseInt(env.LLM_TIMEOUT_MS || '60000', 10) || 60000;
+
+	switch (configured) {
+		case 'local':
+			return new OpenAICompatibleProvider({
+				name: 'local',
+				model: env.LOCAL_LLM_MODEL || 'llama3.1',
+				// Local servers usually ignore the key, but the client requires one
+				apiKey: env.LOCAL_LLM_API_KEY || 'local',
+				baseURL: env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+				timeoutMs,
+			});
+		case 'rule-based':
+		case 'rules':
+			return new RuleBasedProvider();
+		case 'openai':
+			return new OpenAICompatibleProvider({
+				name: 'openai',
+				model: env.OPENAI_MODEL || 'gpt-4-turbo',
+				apiKey: env.OPENAI_API_KEY || '',
+				timeoutMs,
+			});
+		case '':
+			return env.OPENAI_API_KEY
+				? createLLMProvider({ ...env, LLM_PROVIDER: 'openai' })
+				: new RuleBasedProvider();
+		default:
+			console.warn(
+				`Unknown LLM_PROVIDER "${configured}", using the rule-based analyzer`
+			);
+			return new RuleBasedProvider();
+	}
+}
+
+let activeProvider: LLMProvider | null = null;
+
+// Provider shared by the routes, created on first use
+export function getLLMProvider(): LLMProvider {
+	if (!activeProvider) {
+		activeProvider = createLLMProvider();
+		console.log(
+			`Prompt analysis provider: ${activeProvider.name} (${activeProvider.model})`
+		);
+	}
+	return activeProvider;
+}
@@ -0,0 +1,153 @@
+import { AudioFeature } from './prompt-analysis';
+
+// The part of audio feature space a mood lives in. Features a mood says
+// nothing about are left out.
+export type MoodRegion = Partial<Record<AudioFeature, [number, number]>>;
+
+interface MoodEntry {
+	region: MoodRegion;
+	// Other words for the mood, matched like the mood's own name
+	aliases: string[];
+}
+
+// Offline lexicon of mood terms, on Spotify's feature scales (tempo in BPM)
+const MOOD_LEXICON: Record<string, MoodEntry> = {
+	melancholic: {
+		region: { valence: [0, 0.35], energy: [0, 0.5] },
+		aliases: [
+			'melancholy',
+			'sad',
+			'somber',
+			'sombre',
+			'gloomy',
+			'heartbroken',
+			'mournful',
+			'wistful',
+			'lonely',
+		],
+	},
+	reflective: {
+		region: { valence: [0.2, 0.6], energy: [0, 0.5], acousticness: [0.3, 1] },
+		aliases: ['introspective', 'thoughtful', 'pensive', 'nostalgic'],
+	},
+	euphoric: {
+		region: { valence: [0.7, 1], energy: [0.75, 1], danceability: [0.6, 1] },
+		aliases: ['ecstatic', 'elated', 'triumphant', 'blissful'],
+	},
+	happy: {
+		region: { valence: [0.6, 1], energy: [0.5, 1] },
+		aliases: [
+			'cheerful',
+			'joyful',
+			'uplifting',
+			'upbeat',
+			'feel-good',
+			'sunny',
+			'positive',
+		],
+	},
+	energetic: {
+		region: { energy: [0.7, 1], tempo: [115, 200] },
+		aliases: ['motivated', 'pumped', 'hype', 'powerful', 'driving'],
+	},
+	aggressive: {
+		region: { energy: [0.8, 1], valence: [0, 0.45] },
+		aliases: ['angry', 'intense', 'fierce', 'furious', 'rage'],
+	},
+	dark: {
+		region: { valence: [0, 0.3], energy: [0.3, 0.8] },
+		aliases: ['ominous', 'brooding', 'moody', 'sinister', 'haunting'],
+	},
+	dreamy: {
+		region: {
+			energy: [0, 0.5],
+			tempo: [60, 110],
+			instrumentalness: [0.2, 1],
+		},
+		aliases: ['ethereal', 'hazy', 'atmospheric', 'floaty', 'spacey'],
+	},
+	calm: {
+		region: { energy: [0, 0.4], tempo: [50, 100] },
+		aliases: [
+			'relaxed',
+			'peaceful',
+			'chill',
+			'mellow',
+			'serene',
+			'tranquil',
+			'soothing',
+		],
+	},
+	romantic: {
+		region: { valence: [0.35, 0.85], energy: [0.2, 0.6] },
+		aliases: ['sensual', 'tender', 'intimate', 'loving', 'sultry'],
+	},
+	festive: {
+		region: {
+			danceability: [0.65, 1],
+			energy: [0.6, 1],
+			valence: [0.55, 1],
+		},
+		aliases: ['party', 'celebratory', 'fun'],
+	},
+	groovy: {
+		region: { danceability: [0.7, 1], energy: [0.5, 0.9] },
+		aliases: ['funky', 'danceable', 'bouncy'],
+	},
+	focused: {
+		region: { energy: [0.2, 0.6], instrumentalness: [0.5, 1] },
+		aliases: ['concentrated', 'productive', 'studious'],
+	},
+	adventurous: {
+		region: { energy: [0.5, 0.9], valence: [0.45, 1] },
+		aliases: ['free', 'carefree', 'epic', 'anthemic'],
+	},
+};
+
+// Mood name for every term the lexicon knows
+const MOOD_TERMS = new Map<string, string>(
+	Object.entries(MOOD_LEXICON).flatMap(([mood, entry]) => [
+		[mood, mood] as [string, string],
+		...entry.aliases.map((alias): [string, string] => [alias, mood]),
+	])
+);
+
+export interface ResolvedMoods {
+	// Lexicon moods found, each with its region
+	regions: { mood: string; region: MoodRegion }[];
+	// Moods from the analysis the lexicon doesn't know
+	unmatched: string[];
+}
+
+// Look up the analysis moods in the lexicon. A mood like "dark and brooding"
+// that isn't a known term is matched word by word.
+export function resolveMoods(moods: string[]): ResolvedMoods {
+	const found = new Set<string>();
+	const unmatched: string[] = [];
+
+	for (const mood of moods) {
+		const text = mood.trim().toLowerCase();
+		if (!text || text === 'general') continue;
+
+		const exact = MOOD_TERMS.get(text);
+		const matches = exact
+			? [exact]
+			: text
+					.split(/[^a-z-]+/)
+					.map((word) => MOOD_TERMS.get(word))
+					.filter((match): match is string => Boolean(match));
+
+		if (matches.length === 0) {
+			unmatched.push(mood);
+		}
+		matches.forEach((match) => found.add(match));
+	}
+
+	return {
+		regions: Array.from(found).map((mood) => ({
+			mood,
+			region: MOOD_LEXICON[mood].region,
+		})),
+		unmatched,
+	};
+}
@@ -0,0 +1,93 @@
+import { PromptAnalysis, AUDIO_FEATURES } from './prompt-analysis';
+import { DurationTarget } from './track-selection';
+
+// A section of the playlist with the analysis its tracks are selected by
+export interface PlaylistSegment {
+	index: number;
+	label: string;
+	share: number; // 0-1, the shares of all segments add up to 1
+	analysis: PromptAnalysis;
+}
+
+// Which section a selected track belongs to, kept on the track
+export interface SegmentLabel {
+	index: number;
+	label: string;
+}
+
+// The analysis as an ordered list of segments. A prompt that doesn't change
+// along the way is a single segment covering the whole playlist.
+export function resolveSegments(analysis: PromptAnalysis): PlaylistSegment[] {
+	const segments = analysis.segments || [];
+	if (segments.length < 2) {
+		return [{ index: 0, label: analysis.description, share: 1, analysis }];
+	}
+
+	// Once any segment names its genres (or moods), a segment without them is
+	// open to all instead of taking the whole playlist's
+	const fallbackGenres = segments.some((segment) => segment.genres.length)
+		? []
+		: analysis.genres;
+	const fallbackMoods = segments.some((segment) => segment.moods.length)
+		? ['general']
+		: analysis.moods;
+
+	const totalShare = segments.reduce((sum, segment) => sum + segment.share, 0);
+	return segments.map((segment, index) => {
+		const segmentAnalysis: PromptAnalysis = {
+			...analysis,
+			genres: segment.genres.length > 0 ? segment.genres : fallbackGenres,
+			moods: segment.moods.length > 0 ? segment.moods : fallbackMoods,
+			sequence_strategy:
+				segment.sequence_strategy || analysis.sequence_strategy,
+			segments: [],
+		};
+		for (const feature of AUDIO_FEATURES) {
+			const range = segment[`${feature}_range`];
+			if (range) {
+				segmentAnalysis[`${feature}_range`] = range;
+			}
+		}
+
+		return {
+			index,
+			label: segment.label,
+			share: segment.share / totalShare,
+			analysis: segmentAnalysis,
+		};
+	});
+}
+
+// Split a track count by the segments' shares (largest remainder), giving
+// every segment at least one track when there are enough
+export function splitTrackCount(
+	total: number,
+	segments: PlaylistSegment[]
+): number[] {
+	const minimum = total >= segments.length ? 1 : 0;
+	const spare = total - minimum * segments.length;
+	const exact = segments.map((segment) => segment.share * spare);
+	const counts = exact.map((value) => minimum + Math.floor(value));
+
+	let remaining = total - counts.reduce((sum, count) => sum + count, 0);
+	const byRemainder = exact
+		.map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+		.sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+	for (const { index } of byRemainder) {
+		if (remaining <= 0) break;
+		counts[index]++;
+		remaining--;
+	}
+	return counts;
+}
+
+// Split a duration target, and its tolerance, by the segments' shares
+export function splitDurationTarget(
+	target: DurationTarget,
+	segments: PlaylistSegment[]
+): DurationTarget[] {
+	return segments.map((segment) => ({
+		minutes: target.minutes * segment.share,
+		toleranceMinutes: target.toleranceMinutes * segment.share,
+	}));
+}
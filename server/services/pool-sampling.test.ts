@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	PoolSamplingStats,
+	createSeededRandom,
+	sampleByRelevance,
+	sampleTrackPool,
+} from './pool-sampling';
+
+// 100 tracks, every tenth by a house artist
+function makeTracks(source = 'liked_songs') {
+	return Array.from({ length: 100 }, (_, i) => ({
+		id: `${source}-${i}`,
+		source,
+		popularity: 50,
+		artists: [
+			{ id: `artist-${i}`, genres: i % 10 === 0 ? ['deep house'] : ['folk'] },
+		],
+	}));
+}
+
+const isHouse = (track: any) => track.artists[0].genres[0] === 'deep house';
+
+describe('sampleByRelevance', () => {
+	it('keeps tracks in the requested genres', () => {
+		const sample = sampleByRelevance(
+			makeTracks(),
+			['house'],
+			20,
+			createSeededRandom('seed')
+		);
+
+		assert.equal(sample.length, 20);
+		assert.equal(sample.filter(isHouse).length, 10);
+	});
+
+	it('samples at random without genre data', () => {
+		const tracks = makeTracks().map(({ artists, ...track }) => ({
+			...track,
+			popularity: Number(track.id.split('-')[2]),
+			artists: [{ id: artists[0].id }],
+		}));
+		const sample = sampleByRelevance(
+			tracks,
+			['house'],
+			20,
+			createSeededRandom('seed')
+		);
+
+		// Ranking by popularity alone would keep exactly the 20 most popular
+		const mostPopular = sample.filter((track) => track.popularity >= 80);
+		assert.equal(sample.length, 20);
+		assert.ok(mostPopular.length < 20);
+	});
+});
+
+describe('sampleTrackPool', () => {
+	const sampling: PoolSamplingStats = {
+		targetPoolSize: 40,
+		sampled: false,
+		seed: 'job-1',
+		sources: {
+			liked_songs: { collected: 100, kept: 100 },
+			playlist: { collected: 100, kept: 100 },
+		},
+	};
+
+	it('splits the pool between sources and prefers relevant tracks', () => {
+		const result = sampleTrackPool(
+			[...makeTracks('liked_songs'), ...makeTracks('playlist')],
+			sampling,
+			['house']
+		);
+
+		assert.equal(result.tracks.length, 40);
+		assert.equal(result.sampling.sampled, true);
+		assert.equal(result.sampling.sources.liked_songs.kept, 20);
+		assert.equal(result.sampling.sources.playlist.kept, 20);
+		assert.equal(result.tracks.filter(isHouse).length, 20);
+	});
+
+	it('leaves a pool that fits alone', () => {
+		const tracks = makeTracks();
+		const result = sampleTrackPool(
+			tracks,
+			{ ...sampling, targetPoolSize: 500 },
+			['house']
+		);
+
+		assert.equal(result.tracks, tracks);
+		assert.equal(result.sampling.sampled, false);
+	});
+});
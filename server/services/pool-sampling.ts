@@ -0,0 +1,223 @@
+import { TopKHeap } from './top-k-heap';
+
+// Helpers for trimming the collected track pool down to the mode's target size
+
+// Before and after counts for one source, reported in processingStats
+export interface SourceSampleCounts {
+	collected: number;
+	kept: number;
+}
+
+export interface PoolSamplingStats {
+	targetPoolSize: number;
+	sampled: boolean; // False when the pool already fit
+	seed: string;
+	sources: Record<string, SourceSampleCounts>;
+}
+
+// Deterministic random numbers in [0, 1), so the same seed gives the same
+// sample (FNV-1a hash of the seed feeding mulberry32)
+export function createSeededRandom(seed: string): () => number {
+	let state = 2166136261;
+	for (let i = 0; i < seed.length; i++) {
+		state ^= seed.charCodeAt(i);
+		state = Math.imul(state, 16777619);
+	}
+
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+// Split the pool size evenly between sources. Sources smaller than their share
+// are kept whole and the rest is shared among the larger ones, so a few
+// selected playlists aren't drowned out by a big liked songs library.
+export function allocateSourceQuotas(
+	sourceSizes: Record<string, number>,
+	total: number
+): Record<string, number> {
+	const quotas: Record<string, number> = {};
+	let open = Object.keys(sourceSizes).filter((source) => {
+		quotas[source] = 0;
+		return sourceSizes[source] > 0;
+	});
+	let remaining = total;
+
+	while (open.length > 0 && remaining > 0) {
+		const share = Math.floor(remaining / open.length);
+		const small = open.filter((source) => sourceSizes[source] <= share);
+
+		if (small.length === 0) {
+			// Every open source can take its share; the leftover goes to the
+			// largest sources
+			const bySize = [...open].sort(
+				(a, b) => sourceSizes[b] - sourceSizes[a]
+			);
+			bySize.forEach((source, index) => {
+				quotas[source] = share + (index < remaining % open.length ? 1 : 0);
+			});
+			break;
+		}
+
+		small.forEach((source) => {
+			quotas[source] = sourceSizes[source];
+			remaining -= sourceSizes[source];
+		});
+		open = open.filter((source) => !small.includes(source));
+	}
+
+	return quotas;
+}
+
+// Bounded random sample of one source's tracks, filled as pages arrive. Each
+// track's priority comes from a hash of the seed and its ID, so the sample
+// doesn't depend on the order tracks arrive in. Tracks that don't fit are
+// dropped and only their IDs are remembered, for removing duplicates.
+export class SourceSample<T extends { id: string }> {
+	readonly ids = new Set<string>();
+	private heap: TopKHeap<T>;
+
+	constructor(
+		private seed: string,
+		capacity: number
+	) {
+		this.heap = new TopKHeap<T>(capacity);
+	}
+
+	// Returns false for tracks this source already had
+	add(track: T): boolean {
+		if (this.ids.has(track.id)) {
+			return false;
+		}
+		this.ids.add(track.id);
+		this.heap.push(track, createSeededRandom(`${this.seed}:${track.id}`)());
+		return true;
+	}
+
+	get tracks(): T[] {
+		return this.heap.toSortedArray();
+	}
+}
+
+// Genres of a track's artists, once artist genres have been looked up
+function trackGenres(track: any): string[] {
+	if (track.extractedGenres) {
+		return track.extractedGenres;
+	}
+	return (track.artists || []).flatMap((artist: any) =>
+		Array.isArray(artist.genres) ? artist.genres : []
+	);
+}
+
+// How well a track's genres match the prompt's, plus a little popularity
+function relevanceScore(track: any, promptGenres: string[]): number {
+	let genreScore = 0;
+	for (const genre of trackGenres(track)) {
+		const genreLower = genre.toLowerCase();
+		if (promptGenres.includes(genreLower)) {
+			genreScore += 2; // Direct match
+			continue;
+		}
+		for (const promptGenre of promptGenres) {
+			if (
+				genreLower.includes(promptGenre) ||
+				promptGenre.includes(genreLower)
+			) {
+				genreScore += 1; // Partial match
+			}
+		}
+	}
+
+	// Weight popularity less than genre matches
+	const popularityScore = track.popularity ? track.popularity / 100 : 0;
+	return genreScore + popularityScore * 0.5;
+}
+
+// Sample up to maxTracks of one source: 70% the most relevant to the prompt's
+// genres, the rest at random for variety. Without any genre data relevance is
+// just popularity, so the whole sample is random instead.
+export function sampleByRelevance<T>(
+	tracks: T[],
+	genres: string[],
+	maxTracks: number,
+	random: () => number = Math.random
+): T[] {
+	if (tracks.length <= maxTracks) {
+		return tracks;
+	}
+
+	const promptGenres = genres.map((genre) => genre.toLowerCase());
+	const ranked = tracks
+		.map((track, index) => ({
+			index,
+			hasGenres: trackGenres(track).length > 0,
+			score: relevanceScore(track, promptGenres),
+		}))
+		.sort((a, b) => b.score - a.score);
+
+	const topCount = ranked.some((scored) => scored.hasGenres)
+		? Math.floor(maxTracks * 0.7)
+		: 0;
+	const rest = ranked.slice(topCount);
+	const randomIndices = new Set<number>();
+	const randomCount = Math.min(maxTracks - topCount, rest.length);
+	while (randomIndices.size < randomCount) {
+		randomIndices.add(Math.floor(random() * rest.length));
+	}
+
+	return [
+		...ranked.slice(0, topCount),
+		...Array.from(randomIndices).map((i) => rest[i]),
+	].map((scored) => tracks[scored.index]);
+}
+
+// Trim the collected pool to the target size, keeping a fair share of every
+// source. Runs once artist genres are attached, so relevance has genres to
+// work with.
+export function sampleTrackPool<T extends { source: string }>(
+	tracks: T[],
+	sampling: PoolSamplingStats,
+	genres: string[]
+): { tracks: T[]; sampling: PoolSamplingStats } {
+	const uniqueCount = Object.values(sampling.sources).reduce(
+		(sum, counts) => sum + counts.collected,
+		0
+	);
+	if (
+		sampling.targetPoolSize <= 0 ||
+		uniqueCount <= sampling.targetPoolSize
+	) {
+		return { tracks, sampling };
+	}
+
+	const random = createSeededRandom(sampling.seed);
+	const quotas = allocateSourceQuotas(
+		Object.fromEntries(
+			Object.entries(sampling.sources).map(([source, counts]) => [
+				source,
+				counts.collected,
+			])
+		),
+		sampling.targetPoolSize
+	);
+
+	const sources: Record<string, SourceSampleCounts> = {};
+	const kept: T[] = [];
+	for (const [source, counts] of Object.entries(sampling.sources)) {
+		const sourceTracks = tracks.filter((track) => track.source === source);
+		const sample = sampleByRelevance(
+			sourceTracks,
+			genres,
+			quotas[source] || 0,
+			random
+		);
+		sources[source] = { ...counts, kept: sample.length };
+		kept.push(...sample);
+	}
+
+	console.log('Sampled track pool by source:', sources);
+	return { tracks: kept, sampling: { ...sampling, sampled: true, sources } };
+}
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	HardConstraint,
+	isUnverifiedByHardConstraints,
+	violatesHardConstraints,
+} from './prompt-analysis';
+
+const noVocals: HardConstraint[] = [
+	{ feature: 'instrumentalness', min: 0.7, reason: 'no vocals' },
+];
+
+describe('hard constraints', () => {
+	it('passes a track whose features meet them', () => {
+		const track = { features: { instrumentalness: 0.9 } };
+		assert.equal(violatesHardConstraints(track, noVocals), false);
+		assert.equal(isUnverifiedByHardConstraints(track, noVocals), false);
+	});
+
+	it('flags a track whose features break them', () => {
+		const track = { features: { instrumentalness: 0.1 } };
+		assert.equal(violatesHardConstraints(track, noVocals), true);
+	});
+
+	it('treats a track without features as unverified', () => {
+		assert.equal(isUnverifiedByHardConstraints({}, noVocals), true);
+		assert.equal(
+			isUnverifiedByHardConstraints({ features: null }, noVocals),
+			true
+		);
+	});
+
+	it('treats a track missing the constrained feature as unverified', () => {
+		const track = { features: { energy: 0.4 } };
+		assert.equal(violatesHardConstraints(track, noVocals), false);
+		assert.equal(isUnverifiedByHardConstraints(track, noVocals), true);
+	});
+
+	it('ignores missing features without constraints', () => {
+		assert.equal(isUnverifiedByHardConstraints({}, []), false);
+	});
+});
@@ -0,0 +1,333 @@
+import { z } from 'zod';
+import { SEQUENCING_STRATEGIES } from './sequencing';
+
+// A [min, max] range of an audio feature. Values are coerced to numbers,
+// clamped to the feature's bounds and swapped if given in the wrong order.
+function rangeSchema(lowerBound: number, upperBound: number) {
+	return z
+		.tuple([z.coerce.number().finite(), z.coerce.number().finite()])
+		.transform(([a, b]): [number, number] => {
+			const clamp = (value: number) =>
+				Math.min(upperBound, Math.max(lowerBound, value));
+			const [min, max] = a <= b ? [a, b] : [b, a];
+			return [clamp(min), clamp(max)];
+		});
+}
+
+function featureRange(
+	lowerBound: number,
+	upperBound: number,
+	fallback: [number, number]
+) {
+	return rangeSchema(lowerBound, upperBound).default(fallback);
+}
+
+// Accept a single string where a list is expected
+function stringList(fallback: string[]) {
+	return z
+		.preprocess(
+			(value) => (typeof value === 'string' ? [value] : value),
+			z.array(z.string().trim().min(1))
+		)
+		.default(fallback);
+}
+
+export const POPULARITY_LEVELS = ['high', 'medium', 'low', 'any'] as const;
+
+export type PopularityLevel = (typeof POPULARITY_LEVELS)[number];
+
+// Spotify popularity (0-100) each level aims for. 'any' has no target.
+export const POPULARITY_RANGES: Record<
+	Exclude<PopularityLevel, 'any'>,
+	[number, number]
+> = {
+	high: [70, 100],
+	medium: [40, 80],
+	low: [0, 40],
+};
+
+// Audio features that have a target range in the analysis
+export const AUDIO_FEATURES = [
+	'energy',
+	'tempo',
+	'danceability',
+	'acousticness',
+	'valence',
+	'instrumentalness',
+] as const;
+
+export type AudioFeature = (typeof AUDIO_FEATURES)[number];
+
+// Bounds of each audio feature as reported by Spotify
+export const AUDIO_FEATURE_BOUNDS: Record<AudioFeature, [number, number]> = {
+	energy: [0, 1],
+	tempo: [0, 300],
+	danceability: [0, 1],
+	acousticness: [0, 1],
+	valence: [0, 1],
+	instrumentalness: [0, 1],
+};
+
+// A requirement tracks must meet to be selected at all, e.g. "no vocals"
+// as instrumentalness >= 0.7. At least one of min and max is set.
+export interface HardConstraint {
+	feature: AudioFeature;
+	min?: number;
+	max?: number;
+	reason?: string;
+}
+
+const hardConstraintSchema = z
+	.object({
+		feature: z.enum(AUDIO_FEATURES),
+		min: z.coerce.number().finite().optional(),
+		max: z.coerce.number().finite().optional(),
+		reason: z.string().optional(),
+	})
+	.refine((c) => c.min !== undefined || c.max !== undefined, {
+		message: 'A hard constraint needs a min or a max',
+	})
+	.transform((c): HardConstraint => {
+		const [lower, upper] = AUDIO_FEATURE_BOUNDS[c.feature];
+		const clamp = (value?: number) =>
+			value === undefined
+				? undefined
+				: Math.min(upper, Math.max(lower, value));
+		let min = clamp(c.min);
+		let max = clamp(c.max);
+		if (min !== undefined && max !== undefined && min > max) {
+			[min, max] = [max, min];
+		}
+		return { ...c, min, max };
+	});
+
+// Everything the track scorer can weight. A weight of 1 is neutral, higher
+// values make the feature count more and 0 ignores it.
+export const SCORING_FEATURES = [
+	'energy',
+	'tempo',
+	'danceability',
+	'acousticness',
+	'valence',
+	'instrumentalness',
+	'genre',
+	'popularity',
+	'mood',
+] as const;
+
+export type ScoringFeature = (typeof SCORING_FEATURES)[number];
+
+export const MAX_FEATURE_WEIGHT = 5;
+
+const featureWeight = z.coerce
+	.number()
+	.finite()
+	.transform((weight) => Math.min(MAX_FEATURE_WEIGHT, Math.max(0, weight)));
+
+export const featureWeightsSchema = z.object({
+	energy: featureWeight.default(1),
+	tempo: featureWeight.default(1),
+	danceability: featureWeight.default(1),
+	acousticness: featureWeight.default(1),
+	valence: featureWeight.default(1),
+	instrumentalness: featureWeight.default(1),
+	genre: featureWeight.default(1),
+	popularity: featureWeight.default(1),
+	mood: featureWeight.default(1),
+});
+
+export type FeatureWeights = z.infer<typeof featureWeightsSchema>;
+
+// User-level overrides sent with a generation request
+export const weightOverridesSchema = featureWeightsSchema.partial().strict();
+
+export type WeightOverrides = z.infer<typeof weightOverridesSchema>;
+
+const sequenceStrategySchema = z.preprocess(
+	(value) =>
+		typeof value === 'string'
+			? value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+			: value,
+	z.enum(SEQUENCING_STRATEGIES)
+);
+
+// Most sections a playlist can be split into
+export const MAX_SEGMENTS = 6;
+
+// One section of a playlist that changes along the way, e.g. "start chill for
+// dinner" in "start chill for dinner, then build into dance music". Anything
+// left out is taken from the whole analysis, except genres and moods once
+// another segment names its own.
+const segmentSchema = z.object({
+	label: z.string().trim().min(1).catch('Section'),
+	// Relative share of the track count or duration
+	share: z.coerce.number().positive().catch(1),
+	genres: stringList([]),
+	moods: stringList([]),
+	energy_range: rangeSchema(0, 1).optional(),
+	tempo_range: rangeSchema(0, 300).optional(),
+	danceability_range: rangeSchema(0, 1).optional(),
+	acousticness_range: rangeSchema(0, 1).optional(),
+	instrumentalness_range: rangeSchema(0, 1).optional(),
+	valence_range: rangeSchema(0, 1).optional(),
+	sequence_strategy: sequenceStrategySchema.optional(),
+});
+
+export type PromptSegment = z.infer<typeof segmentSchema>;
+
+// What the prompt rules out, e.g. "no country, nothing by Drake, no live
+// versions, no explicit lyrics". Matching tracks are never selected.
+const exclusionsSchema = z.object({
+	artists: stringList([]),
+	genres: stringList([]),
+	// Version words looked for in track and album titles, e.g. "live", "remix"
+	title_keywords: stringList([]).transform((keywords) =>
+		keywords.map((keyword) =>
+			keyword.toLowerCase().replace(/\s+versions?$/, '')
+		)
+	),
+	// Rule out tracks marked explicit
+	explicit: z.boolean().catch(false).default(false),
+});
+
+export type Exclusions = z.infer<typeof exclusionsSchema>;
+
+export const promptAnalysisSchema = z.object({
+	genres: stringList([]),
+	moods: stringList(['general']).transform((moods) =>
+		moods.length > 0 ? moods : ['general']
+	),
+	energy_range: featureRange(0, 1, [0.0, 1.0]),
+	tempo_range: featureRange(0, 300, [0, 300]),
+	danceability_range: featureRange(0, 1, [0.0, 1.0]),
+	acousticness_range: featureRange(0, 1, [0.0, 1.0]),
+	instrumentalness_range: featureRange(0, 1, [0.0, 1.0]),
+	valence_range: featureRange(0, 1, [0.0, 1.0]),
+	description: z
+		.string()
+		.transform((description) =>
+			description.length > 100
+				? description.substring(0, 97) + '...'
+				: description
+		)
+		.default('General playlist based on popular tracks'),
+	filter_logic: z.string().default('Sort by popularity as fallback'),
+	popularity_level: z
+		.preprocess(
+			(value) =>
+				typeof value === 'string' ? value.trim().toLowerCase() : value,
+			z.enum(POPULARITY_LEVELS)
+		)
+		.default('medium'),
+	// Prefer lesser-played tracks by artists the user already likes
+	hidden_gems: z.boolean().default(false),
+	// Total length stated in the prompt, e.g. "a 45-minute run"
+	target_duration_minutes: z.coerce
+		.number()
+		.positive()
+		.max(600)
+		.nullable()
+		.catch(null),
+	sequence_strategy: sequenceStrategySchema.default('none'),
+	feature_weights: featureWeightsSchema.default({}),
+	hard_constraints: z.array(hardConstraintSchema).default([]),
+	exclusions: exclusionsSchema.default({}),
+	// Ordered sections; empty unless the playlist changes along the way
+	segments: z
+		.array(segmentSchema)
+		.default([])
+		.transform((segments) => segments.slice(0, MAX_SEGMENTS)),
+});
+
+// Audio feature ranges and metadata the pipeline uses to pick tracks
+export type PromptAnalysis = z.infer<typeof promptAnalysisSchema>;
+
+export const DEFAULT_PROMPT_ANALYSIS: PromptAnalysis =
+	promptAnalysisSchema.parse({});
+
+// The analysis weights with the user's overrides applied on top
+export function resolveFeatureWeights(
+	analysis: PromptAnalysis,
+	overrides: WeightOverrides = {}
+): FeatureWeights {
+	const weights = { ...analysis.feature_weights };
+	for (const feature of SCORING_FEATURES) {
+		const override = overrides[feature];
+		if (override !== undefined) {
+			weights[feature] = override;
+		}
+	}
+	return weights;
+}
+
+// Whether a track lacks a feature some hard constraint needs, so it can't be
+// shown to meet them. Such tracks are left out while a constraint is set.
+export function isUnverifiedByHardConstraints(
+	track: { features?: Record<string, any> | null },
+	constraints: HardConstraint[]
+): boolean {
+	return constraints.some(
+		(constraint) => typeof track.features?.[constraint.feature] !== 'number'
+	);
+}
+
+// Whether a track's known audio features break any hard constraint. Tracks
+// without audio features can't be checked and never count as violating.
+export function violatesHardConstraints(
+	track: { features?: Record<string, any> | null },
+	constraints: HardConstraint[]
+): boolean {
+	if (!track.features) {
+		return false;
+	}
+
+	return constraints.some((constraint) => {
+		const value = track.features![constraint.feature];
+		if (typeof value !== 'number') {
+			return false;
+		}
+		return (
+			(constraint.min !== undefined && value < constraint.min) ||
+			(constraint.max !== undefined && value > constraint.max)
+		);
+	});
+}
+
+export type PromptAnalysisParseResult =
+	| { success: true; data: PromptAnalysis }
+	| { success: false; errors: string[] };
+
+// Parse and validate raw model output
+export function parsePromptAnalysis(raw: string): PromptAnalysisParseResult {
+	let json: unknown;
+	try {
+		json = JSON.parse(raw);
+	} catch (error: any) {
+		return {
+			success: false,
+			errors: [`Response is not valid JSON: ${error.message}`],
+		};
+	}
+
+	const result = promptAnalysisSchema.safeParse(json);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+
+	return {
+		success: false,
+		errors: result.error.issues.map(
+			(issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+		),
+	};
+}
+
+export class PromptAnalysisValidationError extends Error {
+	errors: string[];
+
+	constructor(errors: string[]) {
+		super(`Invalid prompt analysis: ${errors.join('; ')}`);
+		this.name = 'PromptAnalysisValidationError';
+		this.errors = errors;
+	}
+}
@@ -0,0 +1,200 @@
+// Orders selected tracks for playback. Tracks without the audio features a
+// strategy needs keep their relative order and go after the sequenced ones.
+
+export const SEQUENCING_STRATEGIES = [
+	'none', // Keep the selection (score) order
+	'ramp_up', // Steadily rising energy, e.g. a buildup to a drop
+	'peak', // Ramp up, peak in the middle, cool down
+	'cool_down', // Steadily falling energy
+	'tempo_flow', // Smallest tempo changes between neighbours
+	'harmonic', // Camelot-wheel key compatibility for DJ-style mixing
+] as const;
+
+export type SequencingStrategy = (typeof SEQUENCING_STRATEGIES)[number];
+
+// Quality of the transitions in a sequenced playlist
+export interface SequencingStats {
+	strategy: SequencingStrategy;
+	chosenBy: 'analysis' | 'user';
+	sequencedTracks: number; // Tracks that had the features the strategy needs
+	compatibleKeyTransitions: number;
+	keyTransitions: number;
+	averageTempoChange: number | null;
+}
+
+// Camelot position of a Spotify key (pitch class 0-11) and mode (1 = major),
+// e.g. C major is 8B and A minor is 8A
+export function toCamelot(
+	key: number,
+	mode: number
+): { number: number; letter: 'A' | 'B' } | null {
+	if (typeof key !== 'number' || key < 0 || key > 11) {
+		return null;
+	}
+
+	// Minor keys share a number with their relative major, 3 semitones up
+	const majorKey = mode === 1 ? key : (key + 3) % 12;
+	return {
+		number: ((majorKey * 7 + 7) % 12) + 1,
+		letter: mode === 1 ? 'B' : 'A',
+	};
+}
+
+// How far apart two keys are on the Camelot wheel. 0 is a perfect or
+// compatible mix (same key, relative major/minor, or one step around the wheel).
+export function camelotDistance(a: any, b: any): number {
+	const from = toCamelot(a?.features?.key, a?.features?.mode);
+	const to = toCamelot(b?.features?.key, b?.features?.mode);
+	if (!from || !to) {
+		return Infinity;
+	}
+
+	const steps = Math.abs(from.number - to.number);
+	const wheelSteps = Math.min(steps, 12 - steps);
+	const sameLetter = from.letter === to.letter;
+
+	if (wheelSteps === 0) return 0;
+	if (wheelSteps === 1 && sameLetter) return 0;
+	return wheelSteps + (sameLetter ? 0 : 1);
+}
+
+// Tempo difference that treats double and half time as close
+function tempoDistance(a: number, b: number): number {
+	return Math.min(Math.abs(a - b), Math.abs(a - 2 * b), Math.abs(2 * a - b));
+}
+
+function hasNumber(track: any, feature: string): boolean {
+	return typeof track?.features?.[feature] === 'number';
+}
+
+// Rising energy on the way to the middle, falling after it
+function arrangePeak(tracks: any[]): any[] {
+	const ascending = [...tracks].sort(
+		(a, b) => a.features.energy - b.features.energy
+	);
+	const rising: any[] = [];
+	const falling: any[] = [];
+	ascending.forEach((track, index) =>
+		(index % 2 === 0 ? rising : falling).push(track)
+	);
+	return [...rising, ...falling.reverse()];
+}
+
+// Greedy nearest-neighbour walk, starting from the first track
+function chainBy(tracks: any[], distance: (a: any, b: any) => number): any[] {
+	if (tracks.length === 0) return [];
+
+	const remaining = [...tracks];
+	const ordered = [remaining.shift()];
+
+	while (remaining.length > 0) {
+		const previous = ordered[ordered.length - 1];
+		let bestIndex = 0;
+		let bestDistance = Infinity;
+		remaining.forEach((track, index) => {
+			const d = distance(previous, track);
+			// Ties keep the selection order
+			if (d < bestDistance) {
+				bestDistance = d;
+				bestIndex = index;
+			}
+		});
+		ordered.push(remaining.splice(bestIndex, 1)[0]);
+	}
+
+	return ordered;
+}
+
+export function sequenceTracks(
+	tracks: any[],
+	strategy: SequencingStrategy
+): { tracks: any[]; sequencedTracks: number } {
+	const required: Record<SequencingStrategy, string[]> = {
+		none: [],
+		ramp_up: ['energy'],
+		peak: ['energy'],
+		cool_down: ['energy'],
+		tempo_flow: ['tempo'],
+		harmonic: ['key', 'mode'],
+	};
+
+	const usable = tracks.filter((track) =>
+		required[strategy].every((feature) => hasNumber(track, feature))
+	);
+	const rest = tracks.filter((track) => !usable.includes(track));
+
+	let ordered: any[];
+	switch (strategy) {
+		case 'ramp_up':
+			ordered = [...usable].sort(
+				(a, b) => a.features.energy - b.features.energy
+			);
+			break;
+		case 'cool_down':
+			ordered = [...usable].sort(
+				(a, b) => b.features.energy - a.features.energy
+			);
+			break;
+		case 'peak':
+			ordered = arrangePeak(usable);
+			break;
+		case 'tempo_flow':
+			// Start from the slowest track so the set builds naturally
+			ordered = chainBy(
+				[...usable].sort((a, b) => a.features.tempo - b.features.tempo),
+				(a, b) => tempoDistance(a.features.tempo, b.features.tempo)
+			);
+			break;
+		case 'harmonic':
+			// Key compatibility first, then the smoother energy change
+			ordered = chainBy(
+				[...usable].sort(
+					(a, b) => (a.features.energy || 0) - (b.features.energy || 0)
+				),
+				(a, b) =>
+					camelotDistance(a, b) * 10 +
+					Math.abs((a.features.energy || 0) - (b.features.energy || 0))
+			);
+			break;
+		default:
+			return { tracks: [...tracks], sequencedTracks: 0 };
+	}
+
+	return { tracks: [...ordered, ...rest], sequencedTracks: usable.length };
+}
+
+// Transition metrics reported with every playlist, whatever the strategy
+export function measureTransitions(tracks: any[]): {
+	compatibleKeyTransitions: number;
+	keyTransitions: number;
+	averageTempoChange: number | null;
+} {
+	let compatibleKeyTransitions = 0;
+	let keyTransitions = 0;
+	let tempoChangeTotal = 0;
+	let tempoTransitions = 0;
+
+	for (let i = 1; i < tracks.length; i++) {
+		const distance = camelotDistance(tracks[i - 1], tracks[i]);
+		if (distance !== Infinity) {
+			keyTransitions++;
+			if (distance === 0) compatibleKeyTransitions++;
+		}
+
+		if (hasNumber(tracks[i - 1], 'tempo') && hasNumber(tracks[i], 'tempo')) {
+			tempoChangeTotal += Math.abs(
+				tracks[i].features.tempo - tracks[i - 1].features.tempo
+			);
+			tempoTransitions++;
+		}
+	}
+
+	return {
+		compatibleKeyTransitions,
+		keyTransitions,
+		averageTempoChange:
+			tempoTransitions > 0
+				? Math.round((tempoChangeTotal / tempoTransitions) * 10) / 10
+				: null,
+	};
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	SpotifyApiError,
+	setPlaylistTracks,
+	streamPages,
+} from './spotify-client';
+
+// Requests made to the mocked fetch, with their parsed bodies
+function mockFetch(statuses: number[] = []) {
+	const requests: { method: string; url: string; uris: string[] }[] = [];
+	mock.method(globalThis, 'fetch', async (url: string, init: any) => {
+		const status = statuses[requests.length] || 201;
+		requests.push({
+			method: init.method,
+			url,
+			uris: JSON.parse(init.body).uris,
+		});
+		return new Response(
+			JSON.stringify(
+				status < 300 ? { snapshot_id: 's' } : { error: { message: 'No' } }
+			),
+			{ status }
+		);
+	});
+	return requests;
+}
+
+const uris = Array.from({ length: 230 }, (_, i) => `spotify:track:${i}`);
+
+describe('setPlaylistTracks', () => {
+	afterEach(() => mock.restoreAll());
+
+	it('adds more than 100 tracks in batches of 100', async () => {
+		const requests = mockFetch();
+
+		await setPlaylistTracks('token', 'playlist', uris);
+
+		assert.deepEqual(
+			requests.map((request) => request.uris.length),
+			[100, 100, 30]
+		);
+		assert.deepEqual(
+			requests.flatMap((request) => request.uris),
+			uris
+		);
+		assert.ok(
+			requests.every((request) =>
+				request.url.endsWith('/playlists/playlist/tracks')
+			)
+		);
+	});
+
+	it('replaces the playlist with the first batch', async () => {
+		const requests = mockFetch();
+
+		await setPlaylistTracks('token', 'playlist', uris);
+
+		assert.deepEqual(
+			requests.map((request) => request.method),
+			['PUT', 'POST', 'POST']
+		);
+	});
+
+	it('stops at the first failed batch', async () => {
+		const requests = mockFetch([201, 400]);
+
+		await assert.rejects(
+			setPlaylistTracks('token', 'playlist', uris),
+			SpotifyApiError
+		);
+		assert.equal(requests.length, 2);
+	});
+});
+
+describe('streamPages', () => {
+	afterEach(() => mock.restoreAll());
+
+	it('requests no pages past maxItems', async () => {
+		const offsets: number[] = [];
+		mock.method(globalThis, 'fetch', async (url: string) => {
+			const offset = Number(new URL(url).searchParams.get('offset') || 0);
+			offsets.push(offset);
+			return new Response(
+				JSON.stringify({
+					items: Array.from({ length: 100 }, (_, i) => offset + i),
+					offset,
+					limit: 100,
+					total: 1000,
+					next: 'https://api.spotify.com/v1/items?offset=100&limit=100',
+				}),
+				{ status: 200 }
+			);
+		});
+
+		const pages: any[][] = [];
+		for await (const items of streamPages('token', '/items?limit=100', {
+			maxItems: 250,
+		})) {
+			pages.push(items);
+		}
+
+		assert.deepEqual(offsets.sort((a, b) => a - b), [0, 100, 200]);
+		assert.equal(pages.length, 3);
+	});
+});
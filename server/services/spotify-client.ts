@@ -0,0 +1,425 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Shared client for the Spotify Web API. Every request goes through the same
+// concurrency limits, so parallel work can't trip Spotify's rate limit, and a
+// 429 pauses all requests for as long as Spotify asks.
+
+const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+
+const MAX_CONCURRENT_REQUESTS = Math.max(
+	1,
+	parseInt(process.env.SPOTIFY_MAX_CONCURRENCY || '12', 10) || 12
+);
+const MAX_CONCURRENT_REQUESTS_PER_USER = Math.max(
+	1,
+	parseInt(process.env.SPOTIFY_MAX_CONCURRENCY_PER_USER || '6', 10) || 6
+);
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+// Longer waits than this are reported as failures instead of blocking the job
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface SpotifyRequestOptions {
+	method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+	body?: any; // Sent as JSON
+	// Key for the per-user limit. Defaults to the access token.
+	userKey?: string;
+	// Additional limit shared by a group of requests, e.g. one track collection
+	limiter?: ConcurrencyLimiter;
+	signal?: AbortSignal;
+}
+
+// Request counts, reported in processingStats
+export interface SpotifyRequestCounts {
+	requests: number; // Every attempt, including retries
+	retries: number;
+	rateLimited: number; // 429 responses
+	serverErrors: number; // 5xx responses
+	failed: number; // Requests that still failed after retrying
+}
+
+export class SpotifyApiError extends Error {
+	constructor(
+		public status: number,
+		message: string,
+		public details?: any
+	) {
+		super(message);
+		this.name = 'SpotifyApiError';
+	}
+}
+
+// Counting semaphore; waiters are served first come, first served
+export class ConcurrencyLimiter {
+	private active = 0;
+	private waiting: Array<() => void> = [];
+
+	constructor(private limit: number) {}
+
+	get idle(): boolean {
+		return this.active === 0 && this.waiting.length === 0;
+	}
+
+	async acquire(): Promise<void> {
+		if (this.active < this.limit) {
+			this.active++;
+			return;
+		}
+		await new Promise<void>((resolve) => this.waiting.push(resolve));
+	}
+
+	release() {
+		const next = this.waiting.shift();
+		if (next) {
+			// The slot passes straight to the next waiter
+			next();
+		} else {
+			this.active--;
+		}
+	}
+
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		await this.acquire();
+		try {
+			return await task();
+		} finally {
+			this.release();
+		}
+	}
+}
+
+const globalLimiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+const userLimiters = new Map<string, ConcurrencyLimiter>();
+
+// Set by a 429; no request starts before this time
+let pausedUntil = 0;
+
+const totalCounts: SpotifyRequestCounts = emptyCounts();
+// Counts for the current generation run, see trackSpotifyRequests
+const runCounts = new AsyncLocalStorage<SpotifyRequestCounts>();
+
+function emptyCounts(): SpotifyRequestCounts {
+	return {
+		requests: 0,
+		retries: 0,
+		rateLimited: 0,
+		serverErrors: 0,
+		failed: 0,
+	};
+}
+
+function count(field: keyof SpotifyRequestCounts) {
+	totalCounts[field]++;
+	const current = runCounts.getStore();
+	if (current) {
+		current[field]++;
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+	const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+	return Math.floor(Math.random() * ceiling);
+}
+
+function retryAfterMs(response: Response, attempt: number): number {
+	const seconds = parseFloat(response.headers.get('Retry-After') || '');
+	return Number.isFinite(seconds) && seconds >= 0
+		? Math.ceil(seconds * 1000)
+		: backoffDelay(attempt);
+}
+
+async function withLimits<T>(
+	userKey: string,
+	groupLimiter: ConcurrencyLimiter | undefined,
+	run: () => Promise<T>
+): Promise<T> {
+	if (groupLimiter) {
+		return groupLimiter.run(() => withLimits(userKey, undefined, run));
+	}
+
+	let userLimiter = userLimiters.get(userKey);
+	if (!userLimiter) {
+		userLimiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS_PER_USER);
+		userLimiters.set(userKey, userLimiter);
+	}
+
+	await userLimiter.acquire();
+	try {
+		return await globalLimiter.run(run);
+	} finally {
+		userLimiter.release();
+		if (userLimiter.idle) {
+			userLimiters.delete(userKey);
+		}
+	}
+}
+
+// Make a Spotify API request. 429s are retried after Retry-After. 5xx
+// responses and network errors are retried with backoff, but only for
+// requests that are safe to repeat, so a POST never creates a playlist twice.
+// The final response is returned whatever its status.
+export async function spotifyFetch(
+	accessToken: string,
+	pathOrUrl: string,
+	options: SpotifyRequestOptions = {}
+): Promise<Response> {
+	const method = options.method || 'GET';
+	const url = pathOrUrl.startsWith('http')
+		? pathOrUrl
+		: `${SPOTIFY_API_BASE}${pathOrUrl}`;
+	const canRepeat = method !== 'POST';
+
+	const headers: Record<string, string> = {
+		Authorization: `Bearer ${accessToken}`,
+	};
+	if (options.body !== undefined) {
+		headers['Content-Type'] = 'application/json';
+	}
+
+	for (let attempt = 0; ; attempt++) {
+		const wait = pausedUntil - Date.now();
+		if (wait > 0) {
+			await sleep(wait);
+		}
+
+		let response: Response;
+		try {
+			response = await withLimits(
+				options.userKey || accessToken,
+				options.limiter,
+				() => {
+					count('requests');
+					return fetch(url, {
+						method,
+						headers,
+						body:
+							options.body !== undefined
+								? JSON.stringify(options.body)
+								: undefined,
+						signal: options.signal,
+					});
+				}
+			);
+		} catch (error) {
+			if (
+				options.signal?.aborted ||
+				!canRepeat ||
+				attempt >= MAX_RETRIES
+			) {
+				count('failed');
+				throw error;
+			}
+			count('retries');
+			await sleep(backoffDelay(attempt));
+			continue;
+		}
+
+		if (response.status === 429) {
+			count('rateLimited');
+			const delay = retryAfterMs(response, attempt);
+			if (attempt >= MAX_RETRIES || delay > MAX_RETRY_AFTER_MS) {
+				count('failed');
+				return response;
+			}
+			console.warn(
+				`Spotify rate limit hit, pausing requests for ${delay}ms`
+			);
+			pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+			count('retries');
+			continue;
+		}
+
+		if (response.status >= 500) {
+			count('serverErrors');
+			if (!canRepeat || attempt >= MAX_RETRIES) {
+				count('failed');
+				return response;
+			}
+			count('retries');
+			await sleep(backoffDelay(attempt));
+			continue;
+		}
+
+		if (!response.ok) {
+			count('failed');
+		}
+		return response;
+	}
+}
+
+// Make a request and parse the JSON response, throwing SpotifyApiError if it failed
+export async function spotifyRequest<T = any>(
+	accessToken: string,
+	pathOrUrl: string,
+	options: SpotifyRequestOptions = {}
+): Promise<T> {
+	const response = await spotifyFetch(accessToken, pathOrUrl, options);
+
+	if (!response.ok) {
+		let details: any = null;
+		try {
+			details = await response.json();
+		} catch (e) {
+			// Some errors have no JSON body
+		}
+		throw new SpotifyApiError(
+			response.status,
+			details?.error?.message ||
+				`Spotify API error: ${response.status} ${response.statusText}`,
+			details
+		);
+	}
+
+	// 204 responses have no body
+	return response.status === 204 ? (null as T) : response.json();
+}
+
+export interface PageStreamOptions {
+	limiter?: ConcurrencyLimiter;
+	// Pages requested ahead of the one being consumed. Defaults to 4.
+	readAhead?: number;
+	// Called before each page, so a cancelled job stops between pages
+	throwIfCancelled?: () => void;
+	// Stop after this many items; pages past them are never requested
+	maxItems?: number;
+}
+
+const DEFAULT_READ_AHEAD = 4;
+
+// Stream the items of a paginated Spotify endpoint one page at a time. The
+// first page tells us the total, so a few of the following pages are
+// requested ahead while the current one is consumed; pages are yielded in
+// order. Failed pages are logged and skipped.
+export async function* streamPages(
+	accessToken: string,
+	initialUrl: string,
+	options: PageStreamOptions = {}
+): AsyncGenerator<any[]> {
+	const { limiter, throwIfCancelled, maxItems } = options;
+	const readAhead = Math.max(1, options.readAhead || DEFAULT_READ_AHEAD);
+
+	const fetchPage = async (url: string) => {
+		const response = await spotifyFetch(accessToken, url, { limiter });
+		if (!response.ok) {
+			throw new Error(
+				`API error: ${response.status} - ${response.statusText}`
+			);
+		}
+		return response.json();
+	};
+
+	throwIfCancelled?.();
+	let firstPage;
+	try {
+		firstPage = await fetchPage(initialUrl);
+	} catch (error) {
+		console.error('Error fetching paginated data:', error);
+		return;
+	}
+
+	yield firstPage.items || [];
+	let itemCount = (firstPage.items || []).length;
+	if (!firstPage.next || (maxItems && itemCount >= maxItems)) {
+		return;
+	}
+
+	// Endpoints without a total can only be followed page by page
+	if (typeof firstPage.total !== 'number' || !firstPage.limit) {
+		let nextUrl: string | null = firstPage.next;
+		while (nextUrl && !(maxItems && itemCount >= maxItems)) {
+			throwIfCancelled?.();
+			let page;
+			try {
+				page = await fetchPage(nextUrl);
+			} catch (error) {
+				console.error('Error fetching paginated data:', error);
+				return;
+			}
+			yield page.items || [];
+			itemCount += (page.items || []).length;
+			nextUrl = page.next;
+		}
+		return;
+	}
+
+	const lastOffset = maxItems
+		? Math.min(firstPage.total, (firstPage.offset || 0) + maxItems)
+		: firstPage.total;
+	const pageUrls: string[] = [];
+	for (
+		let offset = (firstPage.offset || 0) + firstPage.limit;
+		offset < lastOffset;
+		offset += firstPage.limit
+	) {
+		const url = new URL(firstPage.next);
+		url.searchParams.set('offset', String(offset));
+		pageUrls.push(url.toString());
+	}
+
+	const requestPage = (url: string): Promise<any[]> =>
+		fetchPage(url)
+			.then((page) => page.items || [])
+			.catch((error) => {
+				console.error('Error fetching paginated data:', error);
+				return [];
+			});
+
+	const pending: Promise<any[]>[] = [];
+	let nextPage = 0;
+	while (nextPage < pageUrls.length || pending.length > 0) {
+		throwIfCancelled?.();
+		while (pending.length < readAhead && nextPage < pageUrls.length) {
+			pending.push(requestPage(pageUrls[nextPage++]));
+		}
+		yield await pending.shift()!;
+	}
+}
+
+// Fetch every page of a paginated Spotify endpoint into one list
+export async function fetchAllPages(
+	accessToken: string,
+	initialUrl: string,
+	options: PageStreamOptions = {}
+): Promise<any[]> {
+	const results: any[] = [];
+	for await (const items of streamPages(accessToken, initialUrl, options)) {
+		results.push(...items);
+	}
+	return results;
+}
+
+// Spotify adds at most this many tracks to a playlist per request
+const PLAYLIST_TRACKS_PER_REQUEST = 100;
+
+// Set a playlist's tracks, 100 per request. The first batch replaces what the
+// playlist has, so running this again after a failed batch doesn't add
+// tracks twice. Throws SpotifyApiError when a request fails.
+export async function setPlaylistTracks(
+	accessToken: string,
+	playlistId: string,
+	uris: string[]
+): Promise<void> {
+	for (let i = 0; i < uris.length; i += PLAYLIST_TRACKS_PER_REQUEST) {
+		await spotifyRequest(accessToken, `/playlists/${playlistId}/tracks`, {
+			method: i === 0 ? 'PUT' : 'POST',
+			body: { uris: uris.slice(i, i + PLAYLIST_TRACKS_PER_REQUEST) },
+		});
+	}
+}
+
+// Run a function with its Spotify requests counted separately
+export function trackSpotifyRequests<T>(run: () => Promise<T>): Promise<T> {
+	return runCounts.run(emptyCounts(), run);
+}
+
+// Counts for the current tracked run, or all requests outside of one
+export function getSpotifyRequestCounts(): SpotifyRequestCounts {
+	return { ...(runCounts.getStore() || totalCounts) };
+}
@@ -0,0 +1,93 @@
+// Keeps the K highest scoring items seen so far, so a large stream of tracks
+// can be ranked without holding all of it in memory. Ties go to the item that
+// was pushed first, the same as a stable sort.
+
+interface HeapEntry<T> {
+	item: T;
+	score: number;
+	order: number;
+}
+
+export class TopKHeap<T> {
+	// Min-heap with the weakest kept entry at the root
+	private entries: HeapEntry<T>[] = [];
+	private pushed = 0;
+
+	constructor(private capacity: number) {}
+
+	get size(): number {
+		return this.entries.length;
+	}
+
+	// Returns whether the item was kept
+	push(item: T, score: number): boolean {
+		const entry = { item, score, order: this.pushed++ };
+
+		if (this.entries.length < this.capacity) {
+			this.entries.push(entry);
+			this.siftUp(this.entries.length - 1);
+			return true;
+		}
+
+		if (this.capacity === 0 || !this.isWeaker(this.entries[0], entry)) {
+			return false;
+		}
+
+		this.entries[0] = entry;
+		this.siftDown(0);
+		return true;
+	}
+
+	// Kept items, highest score first
+	toSortedArray(): T[] {
+		return [...this.entries]
+			.sort((a, b) => b.score - a.score || a.order - b.order)
+			.map((entry) => entry.item);
+	}
+
+	private isWeaker(a: HeapEntry<T>, b: HeapEntry<T>): boolean {
+		return a.score < b.score || (a.score === b.score && a.order > b.order);
+	}
+
+	private siftUp(index: number) {
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+			if (!this.isWeaker(this.entries[index], this.entries[parent])) {
+				break;
+			}
+			this.swap(index, parent);
+			index = parent;
+		}
+	}
+
+	private siftDown(index: number) {
+		for (;;) {
+			const left = index * 2 + 1;
+			const right = left + 1;
+			let weakest = index;
+
+			if (
+				left < this.entries.length &&
+				this.isWeaker(this.entries[left], this.entries[weakest])
+			) {
+				weakest = left;
+			}
+			if (
+				right < this.entries.length &&
+				this.isWeaker(this.entries[right], this.entries[weakest])
+			) {
+				weakest = right;
+			}
+			if (weakest === index) {
+				break;
+			}
+
+			this.swap(index, weakest);
+			index = weakest;
+		}
+	}
+
+	private swap(a: number, b: number) {
+		[this.entries[a], this.entries[b]] = [this.entries[b], this.entries[a]];
+	}
+}
@@ -0,0 +1,406 @@
+import { z } from 'zod';
+import Playlist from '../models/Playlist';
+
+// Per-request limits on how varied the selected tracks must be. A limit of 0
+// means unlimited.
+export const selectionConstraintsSchema = z
+	.object({
+		maxPerArtist: z.coerce.number().int().min(0).default(3),
+		maxPerAlbum: z.coerce.number().int().min(0).default(2),
+		noConsecutiveArtist: z.boolean().default(true),
+		excludeRecentAIPlaylists: z.boolean().default(false),
+		recentPlaylistCount: z.coerce.number().int().min(1).max(50).default(5),
+	})
+	.strict();
+
+export type SelectionConstraints = z.infer<typeof selectionConstraintsSchema>;
+
+export const DEFAULT_SELECTION_CONSTRAINTS: SelectionConstraints =
+	selectionConstraintsSchema.parse({});
+
+// Total playlist length asked for instead of a track count
+export const durationTargetSchema = z
+	.object({
+		minutes: z.coerce.number().positive().max(600),
+		toleranceMinutes: z.coerce.number().min(0).max(60).default(3),
+	})
+	.strict();
+
+export type DurationTarget = z.infer<typeof durationTargetSchema>;
+
+// How close a duration-targeted selection got, reported in processingStats
+export interface DurationFillStats {
+	targetMinutes: number;
+	toleranceMinutes: number;
+	totalMinutes: number;
+	withinTolerance: boolean;
+}
+
+// Shortest average track length planned for, so a duration target never
+// leaves the scorer with too few candidates
+const MIN_AVERAGE_TRACK_MS = 3 * 60 * 1000;
+
+// Most tracks a duration target could need
+export function estimateTrackCount(target: DurationTarget): number {
+	return Math.ceil(
+		((target.minutes + target.toleranceMinutes) * 60 * 1000) /
+			MIN_AVERAGE_TRACK_MS
+	);
+}
+
+// What the constraints filtered out, reported in processingStats
+export interface SelectionConstraintStats {
+	skippedForArtistLimit: number;
+	skippedForAlbumLimit: number;
+	skippedAsRecentlyUsed: number;
+	relaxedToFill: number; // Limit-breaking tracks added back because too few passed
+	reorderedForArtistSpacing: number;
+	consecutiveArtistConflicts: number; // Adjacent same-artist pairs that couldn't be avoided
+}
+
+function artistIds(track: any): string[] {
+	return (track.artists || [])
+		.map((artist: any) => artist.id || artist.name)
+		.filter(Boolean);
+}
+
+function sharesArtist(a: any, b: any): boolean {
+	const ids = new Set(artistIds(a));
+	return artistIds(b).some((id) => ids.has(id));
+}
+
+// Reorder tracks so the same artist never plays twice in a row, keeping the
+// original order wherever possible
+export function spaceOutArtists(tracks: any[]): {
+	tracks: any[];
+	moved: number;
+	conflicts: number;
+} {
+	const remaining = [...tracks];
+	const ordered: any[] = [];
+	let moved = 0;
+	let conflicts = 0;
+
+	while (remaining.length > 0) {
+		const previous = ordered[ordered.length - 1];
+		let index = previous
+			? remaining.findIndex((track) => !sharesArtist(track, previous))
+			: 0;
+
+		if (index === -1) {
+			index = 0;
+			conflicts++;
+		} else if (index > 0) {
+			moved++;
+		}
+
+		ordered.push(remaining.splice(index, 1)[0]);
+	}
+
+	return { tracks: ordered, moved, conflicts };
+}
+
+export function emptyConstraintStats(): SelectionConstraintStats {
+	return {
+		skippedForArtistLimit: 0,
+		skippedForAlbumLimit: 0,
+		skippedAsRecentlyUsed: 0,
+		relaxedToFill: 0,
+		reorderedForArtistSpacing: 0,
+		consecutiveArtistConflicts: 0,
+	};
+}
+
+// Totals of the stats of selections made separately, e.g. per segment
+export function addConstraintStats(
+	a: SelectionConstraintStats,
+	b: SelectionConstraintStats
+): SelectionConstraintStats {
+	return {
+		skippedForArtistLimit: a.skippedForArtistLimit + b.skippedForArtistLimit,
+		skippedForAlbumLimit: a.skippedForAlbumLimit + b.skippedForAlbumLimit,
+		skippedAsRecentlyUsed: a.skippedAsRecentlyUsed + b.skippedAsRecentlyUsed,
+		relaxedToFill: a.relaxedToFill + b.relaxedToFill,
+		reorderedForArtistSpacing:
+			a.reorderedForArtistSpacing + b.reorderedForArtistSpacing,
+		consecutiveArtistConflicts:
+			a.consecutiveArtistConflicts + b.consecutiveArtistConflicts,
+	};
+}
+
+// Split ranked tracks into those within the artist and album limits and those
+// over them, both in ranked order. Recently used tracks are dropped.
+function partitionByLimits(
+	rankedTracks: any[],
+	maxTracks: number,
+	constraints: SelectionConstraints,
+	excludedTrackIds: Set<string>,
+	stats: SelectionConstraintStats
+): { selected: any[]; overLimit: any[] } {
+	const artistCounts = new Map<string, number>();
+	const albumCounts = new Map<string, number>();
+	const selected: any[] = [];
+	const overLimit: any[] = [];
+
+	for (const track of rankedTracks) {
+		if (selected.length >= maxTracks) break;
+
+		if (excludedTrackIds.has(track.id)) {
+			stats.skippedAsRecentlyUsed++;
+			continue;
+		}
+
+		const artists = artistIds(track);
+		if (
+			constraints.maxPerArtist > 0 &&
+			artists.some(
+				(id) => (artistCounts.get(id) || 0) >= constraints.maxPerArtist
+			)
+		) {
+			stats.skippedForArtistLimit++;
+			overLimit.push(track);
+			continue;
+		}
+
+		const albumId = track.album?.id;
+		if (
+			constraints.maxPerAlbum > 0 &&
+			albumId &&
+			(albumCounts.get(albumId) || 0) >= constraints.maxPerAlbum
+		) {
+			stats.skippedForAlbumLimit++;
+			overLimit.push(track);
+			continue;
+		}
+
+		selected.push(track);
+		artists.forEach((id) =>
+			artistCounts.set(id, (artistCounts.get(id) || 0) + 1)
+		);
+		if (albumId) {
+			albumCounts.set(albumId, (albumCounts.get(albumId) || 0) + 1);
+		}
+	}
+
+	return { selected, overLimit };
+}
+
+// Reorder the selection for artist spacing when the constraints ask for it
+function spaceOutSelection(
+	selected: any[],
+	constraints: SelectionConstraints,
+	stats: SelectionConstraintStats
+): any[] {
+	if (!constraints.noConsecutiveArtist) {
+		return selected;
+	}
+
+	const spaced = spaceOutArtists(selected);
+	stats.reorderedForArtistSpacing = spaced.moved;
+	stats.consecutiveArtistConflicts = spaced.conflicts;
+	return spaced.tracks;
+}
+
+// Take the best tracks in ranked order while respecting the constraints
+export function applySelectionConstraints(
+	rankedTracks: any[],
+	maxTracks: number,
+	constraints: SelectionConstraints,
+	excludedTrackIds: Set<string> = new Set()
+): { tracks: any[]; stats: SelectionConstraintStats } {
+	const stats = emptyConstraintStats();
+	const { selected, overLimit } = partitionByLimits(
+		rankedTracks,
+		maxTracks,
+		constraints,
+		excludedTrackIds,
+		stats
+	);
+
+	// A small library may not have enough variety; fill up with the best
+	// tracks that broke a limit rather than return a short playlist
+	if (selected.length < maxTracks && overLimit.length > 0) {
+		const fill = overLimit.slice(0, maxTracks - selected.length);
+		stats.relaxedToFill = fill.length;
+		selected.push(...fill);
+	}
+
+	return { tracks: spaceOutSelection(selected, constraints, stats), stats };
+}
+
+// Track lengths are planned in whole seconds, rounded up so a set that fits
+// the plan never runs over
+const DURATION_STEP_MS = 1000;
+// Lower ranked tracks the gap filler considers
+const MAX_FILL_CANDIDATES = 300;
+
+function totalDurationMs(tracks: any[]): number {
+	return tracks.reduce((sum, track) => sum + (track.duration_ms || 0), 0);
+}
+
+// Pick ranked tracks totalling between minMs and maxMs. The best tracks are
+// taken in order until the next one would pass minMs, then the remaining gap
+// is filled with the highest scoring set of lower ranked tracks that lands in
+// range (a 0/1 knapsack over track lengths). Returns the picks in ranked
+// order; if no set lands in range, the longest one that stays under maxMs.
+function pickForDuration(
+	rankedTracks: any[],
+	minMs: number,
+	maxMs: number
+): any[] {
+	const tracks = rankedTracks.filter((track) => track.duration_ms > 0);
+	const core: any[] = [];
+	let total = 0;
+	let next = 0;
+	while (next < tracks.length && total + tracks[next].duration_ms <= minMs) {
+		total += tracks[next].duration_ms;
+		core.push(tracks[next++]);
+	}
+	if (total >= minMs) {
+		return core;
+	}
+
+	const candidates = tracks.slice(next, next + MAX_FILL_CANDIDATES);
+	if (candidates.length === 0) {
+		return core;
+	}
+	const capacity = Math.floor((maxMs - total) / DURATION_STEP_MS);
+	const lowest = Math.ceil((minMs - total) / DURATION_STEP_MS);
+	const weights = candidates.map((track) =>
+		Math.ceil(track.duration_ms / DURATION_STEP_MS)
+	);
+	// Value each pick by its score relative to the other candidates times its
+	// length, so filling the gap with a few strong tracks beats many short
+	// weak ones
+	const scores = candidates.map((track) => track.score || 0);
+	const minScore = Math.min(...scores);
+	const spread = Math.max(...scores) - minScore || 1;
+	const values = scores.map(
+		(score, i) => ((score - minScore) / spread + 0.1) * weights[i]
+	);
+
+	// best[c]: highest value of a set of candidates exactly c steps long
+	const best = new Float64Array(capacity + 1).fill(-Infinity);
+	best[0] = 0;
+	const taken = candidates.map(() => new Uint8Array(capacity + 1));
+	candidates.forEach((_, i) => {
+		for (let c = capacity; c >= weights[i]; c--) {
+			const withTrack = best[c - weights[i]] + values[i];
+			if (withTrack > best[c]) {
+				best[c] = withTrack;
+				taken[i][c] = 1;
+			}
+		}
+	});
+
+	// The best set in range, or failing that the longest set that fits
+	let length = -1;
+	for (let c = Math.max(0, lowest); c <= capacity; c++) {
+		if (best[c] > -Infinity && (length < 0 || best[c] > best[length])) {
+			length = c;
+		}
+	}
+	if (length < 0) {
+		length = Math.min(capacity, Math.max(0, lowest));
+		while (length > 0 && best[length] === -Infinity) length--;
+	}
+
+	const fill: any[] = [];
+	for (let i = candidates.length - 1; i >= 0 && length > 0; i--) {
+		if (taken[i][length]) {
+			fill.unshift(candidates[i]);
+			length -= weights[i];
+		}
+	}
+	return [...core, ...fill];
+}
+
+// Like applySelectionConstraints, but selects tracks by total length instead
+// of count so the playlist lands within the target's tolerance. Tracks over
+// the artist and album limits are only used when the others fall short.
+export function selectForDuration(
+	rankedTracks: any[],
+	target: DurationTarget,
+	constraints: SelectionConstraints,
+	excludedTrackIds: Set<string> = new Set()
+): {
+	tracks: any[];
+	stats: SelectionConstraintStats;
+	duration: DurationFillStats;
+} {
+	// A tolerance wider than the target still needs at least one track
+	const minMs = Math.max(
+		1,
+		(target.minutes - target.toleranceMinutes) * 60 * 1000
+	);
+	const maxMs = (target.minutes + target.toleranceMinutes) * 60 * 1000;
+
+	const stats = emptyConstraintStats();
+	const { selected, overLimit } = partitionByLimits(
+		rankedTracks,
+		Infinity,
+		constraints,
+		excludedTrackIds,
+		stats
+	);
+
+	const picked = pickForDuration(selected, minMs, maxMs);
+	let total = totalDurationMs(picked);
+	if (total < minMs && overLimit.length > 0) {
+		const fill = pickForDuration(overLimit, minMs - total, maxMs - total);
+		stats.relaxedToFill = fill.length;
+		picked.push(...fill);
+		total += totalDurationMs(fill);
+	}
+
+	return {
+		tracks: spaceOutSelection(picked, constraints, stats),
+		stats,
+		duration: toDurationFillStats(target, total),
+	};
+}
+
+function toDurationFillStats(
+	target: DurationTarget,
+	totalMs: number
+): DurationFillStats {
+	const round = (minutes: number) => Math.round(minutes * 10) / 10;
+	return {
+		targetMinutes: round(target.minutes),
+		toleranceMinutes: round(target.toleranceMinutes),
+		totalMinutes: round(totalMs / 60000),
+		withinTolerance:
+			Math.abs(totalMs / 60000 - target.minutes) <= target.toleranceMinutes,
+	};
+}
+
+// How close the whole playlist got to a duration target that was filled in
+// parts, e.g. per segment
+export function combineDurationFills(
+	target: DurationTarget,
+	tracks: any[]
+): DurationFillStats {
+	return toDurationFillStats(target, totalDurationMs(tracks));
+}
+
+// Track IDs of the user's most recent AI playlists
+export async function getRecentAIPlaylistTrackIds(
+	spotifyUserId: string,
+	playlistCount: number
+): Promise<Set<string>> {
+	try {
+		const playlists = await Playlist.find({
+			spotifyUserId,
+			isAIGenerated: true,
+		})
+			.sort({ createdAt: -1 })
+			.limit(playlistCount)
+			.select('trackIds')
+			.lean();
+
+		return new Set(playlists.flatMap((playlist) => playlist.trackIds || []));
+	} catch (error: any) {
+		console.error('Failed to load recent AI playlists:', error.message);
+		return new Set();
+	}
+}
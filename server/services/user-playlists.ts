@@ -0,0 +1,31 @@
+import { fetchAllPages } from './spotify-client';
+
+// Cached playlist tracks stay valid for as long as the playlist's snapshot
+// doesn't change
+export function playlistTracksCacheKey(
+	playlistId: string,
+	snapshotId: string
+): string {
+	return `${playlistId}:${snapshotId}`;
+}
+
+// All of the current user's playlists, their own and the ones they follow,
+// in Spotify's order (most recently created or followed first)
+export async function fetchUserPlaylists(accessToken: string): Promise<any[]> {
+	const playlists = await fetchAllPages(
+		accessToken,
+		'/me/playlists?limit=50'
+	);
+	return playlists.filter((playlist) => playlist?.id);
+}
+
+// Track count of each playlist, used for processing time estimates
+export function getPlaylistSizes(playlists: any[]): Record<string, number> {
+	const sizes: Record<string, number> = {};
+	playlists.forEach((playlist) => {
+		if (playlist.tracks?.total) {
+			sizes[playlist.id] = playlist.tracks.total;
+		}
+	});
+	return sizes;
+}